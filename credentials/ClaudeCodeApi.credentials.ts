@@ -0,0 +1,172 @@
+import type { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class ClaudeCodeApi implements ICredentialType {
+	name = 'claudeCodeApi';
+
+	displayName = 'Claude Code API';
+
+	documentationUrl =
+		'https://docs.anthropic.com/en/docs/claude-code/settings#environment-variables';
+
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Provider',
+			name: 'provider',
+			type: 'options',
+			options: [
+				{
+					name: 'Anthropic API',
+					value: 'anthropic',
+				},
+				{
+					name: 'Amazon Bedrock',
+					value: 'bedrock',
+				},
+				{
+					name: 'Google Vertex AI',
+					value: 'vertex',
+				},
+			],
+			default: 'anthropic',
+			description: 'Which API Claude Code should use to reach Claude models',
+		},
+		{
+			displayName: 'API Key',
+			name: 'apiKey',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			description: 'Anthropic API key (starts with sk-ant-)',
+			displayOptions: {
+				show: {
+					provider: ['anthropic'],
+				},
+			},
+		},
+		{
+			displayName: 'Base URL',
+			name: 'baseUrl',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g., https://llm-gateway.example.com',
+			description:
+				'Custom API base URL, for example a proxy or LLM gateway. Leave empty for the Anthropic API.',
+			displayOptions: {
+				show: {
+					provider: ['anthropic'],
+				},
+			},
+		},
+		{
+			displayName: 'AWS Region',
+			name: 'awsRegion',
+			type: 'string',
+			default: 'us-east-1',
+			description: 'AWS region where Claude models are enabled in Bedrock',
+			displayOptions: {
+				show: {
+					provider: ['bedrock'],
+				},
+			},
+		},
+		{
+			displayName: 'AWS Access Key ID',
+			name: 'awsAccessKeyId',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			description: 'Leave empty to use the AWS credentials available to the n8n host',
+			displayOptions: {
+				show: {
+					provider: ['bedrock'],
+				},
+			},
+		},
+		{
+			displayName: 'AWS Secret Access Key',
+			name: 'awsSecretAccessKey',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			displayOptions: {
+				show: {
+					provider: ['bedrock'],
+				},
+			},
+		},
+		{
+			displayName: 'AWS Session Token',
+			name: 'awsSessionToken',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			description: 'Only needed for temporary credentials',
+			displayOptions: {
+				show: {
+					provider: ['bedrock'],
+				},
+			},
+		},
+		{
+			displayName: 'Bedrock Base URL',
+			name: 'bedrockBaseUrl',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g., https://bedrock-runtime.us-east-1.amazonaws.com',
+			description: 'Custom Bedrock endpoint, for example a VPC endpoint or gateway',
+			displayOptions: {
+				show: {
+					provider: ['bedrock'],
+				},
+			},
+		},
+		{
+			displayName: 'Vertex Project ID',
+			name: 'vertexProjectId',
+			type: 'string',
+			default: '',
+			description: 'Google Cloud project that has Claude models enabled in Vertex AI',
+			displayOptions: {
+				show: {
+					provider: ['vertex'],
+				},
+			},
+		},
+		{
+			displayName: 'Vertex Region',
+			name: 'vertexRegion',
+			type: 'string',
+			default: 'us-east5',
+			description: 'Google Cloud region to send requests to',
+			displayOptions: {
+				show: {
+					provider: ['vertex'],
+				},
+			},
+		},
+		{
+			displayName: 'Service Account Key File',
+			name: 'googleCredentialsPath',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g., /home/node/.config/gcloud/claude-sa.json',
+			description:
+				'Path to a service account JSON key on the n8n host. Leave empty to use the application default credentials.',
+			displayOptions: {
+				show: {
+					provider: ['vertex'],
+				},
+			},
+		},
+		{
+			displayName: 'MCP Secrets',
+			name: 'mcpSecrets',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			placeholder: 'e.g., {"GITHUB_TOKEN": "ghp_..."}',
+			description:
+				'JSON object of secrets that MCP server environment variables, headers and URLs can reference as ${NAME}. The values are masked in debug logs.',
+		},
+	];
+}
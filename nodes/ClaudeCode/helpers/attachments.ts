@@ -0,0 +1,271 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { SDKUserMessage } from '@anthropic-ai/claude-code';
+import type { IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+
+export type AttachmentLocation = 'temp' | 'project';
+
+export interface AttachmentOptions {
+	binaryProperties?: string;
+	location?: AttachmentLocation;
+	maxFileSize?: number;
+	maxTotalSize?: number;
+	keepFiles?: boolean;
+}
+
+// An attachment written to disk for Claude to read, listed in the prompt
+export interface AttachmentFile {
+	property: string;
+	fileName: string;
+	path: string;
+	mimeType: string;
+	size: number;
+	[key: string]: any; // Index signature for n8n IDataObject compatibility
+}
+
+interface ImageBlock {
+	type: 'image';
+	source: { type: 'base64'; media_type: string; data: string };
+}
+
+// Image types Claude accepts as content blocks, and the largest image the API takes
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MB = 1024 * 1024;
+
+export const attachmentsProperty: INodeProperties = {
+	displayName: 'Attachments',
+	name: 'attachments',
+	type: 'collection',
+	placeholder: 'Add Attachment Option',
+	default: {},
+	description:
+		'Passes binary data of the input item to Claude. Images are sent with the prompt, other files are written to disk and their paths added to the prompt.',
+	options: [
+		{
+			displayName: 'Binary Properties',
+			name: 'binaryProperties',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g., data, screenshot',
+			description: 'Comma-separated names of the binary properties of the input item to attach',
+		},
+		{
+			displayName: 'File Location',
+			name: 'location',
+			type: 'options',
+			options: [
+				{
+					name: 'Project Path',
+					value: 'project',
+					description:
+						'A new .n8n-attachments directory in the project path, ignored by git so it never shows up in changes',
+				},
+				{
+					name: 'Temporary Directory',
+					value: 'temp',
+					description: 'A new directory in the system temporary directory',
+				},
+			],
+			default: 'temp',
+			description: 'Where files that are not sent as images are written',
+		},
+		{
+			displayName: 'Keep Files',
+			name: 'keepFiles',
+			type: 'boolean',
+			default: false,
+			description:
+				'Whether to leave the written files in place after the run instead of deleting them',
+		},
+		{
+			displayName: 'Max File Size (MB)',
+			name: 'maxFileSize',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 10,
+			description: 'Largest attachment allowed; a larger one fails the item. 0 means no limit.',
+		},
+		{
+			displayName: 'Max Total Size (MB)',
+			name: 'maxTotalSize',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 25,
+			description: 'Largest combined size of all attachments of an item. 0 means no limit.',
+		},
+	],
+};
+
+function formatSize(bytes: number): string {
+	return bytes >= MB ? `${(bytes / MB).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+// File name of an attachment: its own base name, made unique within the directory
+function uniqueFileName(fileName: string, used: Set<string>): string {
+	const base = path.basename(fileName).replace(/[\\/:*?"<>|\0]+/g, '_') || 'attachment';
+	const extension = path.extname(base);
+	let candidate = base;
+	for (let counter = 2; used.has(candidate); counter++) {
+		candidate = `${base.slice(0, base.length - extension.length)}-${counter}${extension}`;
+	}
+	used.add(candidate);
+	return candidate;
+}
+
+/**
+ * The attachments of one item: image blocks for the prompt and files written to a directory of
+ * their own. Call cleanup() when the run is done.
+ */
+export class Attachments {
+	private constructor(
+		readonly images: ImageBlock[],
+		readonly imageNames: string[],
+		readonly files: AttachmentFile[],
+		readonly directory: string | undefined,
+		private readonly keepFiles: boolean,
+	) {}
+
+	/**
+	 * Reads the configured binary properties of an item, or returns undefined when none are set.
+	 */
+	static async prepare(
+		context: IExecuteFunctions,
+		itemIndex: number,
+		options: AttachmentOptions,
+		projectPath: string | undefined,
+	): Promise<Attachments | undefined> {
+		const properties = (options.binaryProperties ?? '')
+			.split(',')
+			.map((property) => property.trim())
+			.filter(Boolean);
+		if (properties.length === 0) return undefined;
+
+		const maxFileBytes = (options.maxFileSize ?? 10) * MB;
+		const maxTotalBytes = (options.maxTotalSize ?? 25) * MB;
+		const images: ImageBlock[] = [];
+		const imageNames: string[] = [];
+		const pending: Array<{ property: string; fileName: string; mimeType: string; data: Buffer }> =
+			[];
+		let totalBytes = 0;
+
+		for (const property of properties) {
+			const binary = context.helpers.assertBinaryData(itemIndex, property);
+			const data = await context.helpers.getBinaryDataBuffer(itemIndex, property);
+			const fileName =
+				binary.fileName || `${property}${binary.fileExtension ? `.${binary.fileExtension}` : ''}`;
+			if (maxFileBytes > 0 && data.length > maxFileBytes) {
+				throw new Error(
+					`Attachment "${property}" (${fileName}) is ${formatSize(data.length)}, more than the limit of ${formatSize(maxFileBytes)}`,
+				);
+			}
+			totalBytes += data.length;
+			if (maxTotalBytes > 0 && totalBytes > maxTotalBytes) {
+				throw new Error(
+					`Attachments are more than the total limit of ${formatSize(maxTotalBytes)}`,
+				);
+			}
+
+			if (IMAGE_TYPES.includes(binary.mimeType) && data.length <= MAX_IMAGE_BYTES) {
+				images.push({
+					type: 'image',
+					source: { type: 'base64', media_type: binary.mimeType, data: data.toString('base64') },
+				});
+				imageNames.push(fileName);
+			} else {
+				pending.push({ property, fileName, mimeType: binary.mimeType, data });
+			}
+		}
+
+		if (pending.length === 0) {
+			return new Attachments(images, imageNames, [], undefined, !!options.keepFiles);
+		}
+
+		let directory: string;
+		if (options.location === 'project') {
+			directory = await fs.mkdtemp(
+				path.join(path.resolve(projectPath || process.cwd()), '.n8n-attachments-'),
+			);
+			// Keeps the attachments out of git change capture and commits
+			await fs.writeFile(path.join(directory, '.gitignore'), '*\n');
+		} else {
+			directory = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-code-attachments-'));
+		}
+
+		const attachments = new Attachments(images, imageNames, [], directory, !!options.keepFiles);
+		try {
+			const used = new Set<string>(['.gitignore']);
+			for (const { property, fileName, mimeType, data } of pending) {
+				const filePath = path.join(directory, uniqueFileName(fileName, used));
+				await fs.writeFile(filePath, data);
+				attachments.files.push({ property, fileName, path: filePath, mimeType, size: data.length });
+			}
+		} catch (error) {
+			await fs.rm(directory, { recursive: true, force: true });
+			throw error;
+		}
+		return attachments;
+	}
+
+	/**
+	 * Adds the attached images and file paths to the prompt text.
+	 */
+	describe(prompt: string): string {
+		const sections = [prompt];
+		if (this.imageNames.length > 0) {
+			sections.push(`Attached images: ${this.imageNames.join(', ')}`);
+		}
+		if (this.files.length > 0) {
+			sections.push(
+				[
+					'Attached files:',
+					...this.files.map(
+						(file) => `- ${file.path} (${file.mimeType}, ${formatSize(file.size)})`,
+					),
+				].join('\n'),
+			);
+		}
+		return sections.join('\n\n');
+	}
+
+	/**
+	 * Removes the written files unless they are kept. Never throws.
+	 */
+	async cleanup(): Promise<void> {
+		if (this.directory && !this.keepFiles) {
+			await fs.rm(this.directory, { recursive: true, force: true }).catch(() => undefined);
+		}
+	}
+}
+
+/**
+ * Streaming-input prompt of one user message with images. Claude Code only accepts image
+ * content through streaming input. The stream stays open until finish() is called, because
+ * Claude Code stops reading permission and MCP responses once its input ends.
+ */
+export function createImagePrompt(
+	text: string,
+	images: ImageBlock[],
+): { prompt: AsyncIterable<SDKUserMessage>; finish: () => void } {
+	let finish = () => {};
+	const finished = new Promise<void>((resolve) => {
+		finish = resolve;
+	});
+
+	async function* messages(): AsyncGenerator<SDKUserMessage> {
+		yield {
+			type: 'user',
+			message: { role: 'user', content: [...images, { type: 'text', text }] },
+			parent_tool_use_id: null,
+			session_id: '',
+		};
+		await finished;
+	}
+
+	return { prompt: messages(), finish: () => finish() };
+}
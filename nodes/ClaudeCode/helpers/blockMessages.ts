@@ -0,0 +1,159 @@
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+import type { BlockMessage } from './interfaces';
+
+type CreateBlockMessage = (
+	type: BlockMessage['type'],
+	content: string,
+	metadata?: Record<string, any>,
+) => BlockMessage;
+
+const CODE_FENCE = /```([\w+#.-]*)[^\n]*\n([\s\S]*?)```/g;
+
+/**
+ * Splits Markdown text into text and fenced code segments, in their original order.
+ */
+export function splitCodeFences(
+	text: string,
+): Array<{ type: 'text' | 'code'; content: string; language?: string }> {
+	const segments: Array<{ type: 'text' | 'code'; content: string; language?: string }> = [];
+	let lastIndex = 0;
+
+	for (const match of text.matchAll(CODE_FENCE)) {
+		const before = text.slice(lastIndex, match.index).trim();
+		if (before) segments.push({ type: 'text', content: before });
+		segments.push({
+			type: 'code',
+			content: match[2].replace(/\n$/, ''),
+			language: match[1] || undefined,
+		});
+		lastIndex = (match.index ?? 0) + match[0].length;
+	}
+
+	const rest = text.slice(lastIndex).trim();
+	if (rest) segments.push({ type: 'text', content: rest });
+	return segments;
+}
+
+function stringifyToolResult(content: unknown): string {
+	if (typeof content === 'string') return content;
+	if (Array.isArray(content)) {
+		return content
+			.map((part: any) => {
+				if (part?.type === 'text') return part.text;
+				if (part?.type === 'image') return '[image]';
+				return JSON.stringify(part);
+			})
+			.join('\n');
+	}
+	return content === undefined || content === null ? '' : JSON.stringify(content);
+}
+
+/**
+ * Converts SDK messages into block messages. Keeps track of tool_use blocks so that each
+ * tool_result can be linked back to the tool that produced it.
+ */
+export class BlockMessageConverter {
+	private readonly toolNames = new Map<string, string>();
+	// Model of the latest assistant message, which changes when Claude Code falls back
+	private model: string | undefined;
+
+	constructor(private readonly createBlockMessage: CreateBlockMessage) {}
+
+	convert(message: SDKMessage): BlockMessage[] {
+		if (message.type === 'system' && message.subtype === 'init') {
+			this.model = message.model;
+			return [
+				this.createBlockMessage('status', 'Session started', {
+					session_id: message.session_id,
+					model: message.model,
+				}),
+			];
+		}
+
+		if (message.type === 'assistant' && Array.isArray(message.message?.content)) {
+			this.model = message.message.model || this.model;
+			return this.convertAssistantContent(message);
+		}
+
+		if (message.type === 'user' && Array.isArray(message.message?.content)) {
+			return this.convertToolResults(message);
+		}
+
+		if (message.type === 'result') {
+			return [
+				this.createBlockMessage('status', 'Execution completed', {
+					success: message.subtype === 'success',
+					session_id: message.session_id,
+					...(this.model && { model: this.model }),
+					duration_ms: message.duration_ms,
+					total_cost_usd: message.total_cost_usd,
+				}),
+			];
+		}
+
+		return [];
+	}
+
+	private convertAssistantContent(
+		message: Extract<SDKMessage, { type: 'assistant' }>,
+	): BlockMessage[] {
+		const blocks: BlockMessage[] = [];
+		const baseMetadata = {
+			messageId: message.message.id,
+			...(message.parent_tool_use_id && { parent_tool_use_id: message.parent_tool_use_id }),
+		};
+
+		message.message.content.forEach((content: any, blockIndex: number) => {
+			const metadata = { ...baseMetadata, block_index: blockIndex };
+
+			if (content.type === 'text') {
+				for (const segment of splitCodeFences(content.text)) {
+					blocks.push(
+						segment.type === 'code'
+							? this.createBlockMessage('code', segment.content, {
+									...metadata,
+									language: segment.language ?? null,
+								})
+							: this.createBlockMessage('text', segment.content, metadata),
+					);
+				}
+			} else if (content.type === 'tool_use') {
+				this.toolNames.set(content.id, content.name);
+				blocks.push(
+					this.createBlockMessage('tool_use', `Using tool: ${content.name}`, {
+						...metadata,
+						tool_use_id: content.id,
+						tool_name: content.name,
+						tool_input: content.input,
+					}),
+				);
+			} else if (content.type === 'thinking') {
+				blocks.push(this.createBlockMessage('thinking', content.thinking, metadata));
+			} else if (content.type === 'redacted_thinking') {
+				blocks.push(
+					this.createBlockMessage('thinking', '[redacted]', { ...metadata, redacted: true }),
+				);
+			}
+		});
+
+		return blocks;
+	}
+
+	private convertToolResults(message: Extract<SDKMessage, { type: 'user' }>): BlockMessage[] {
+		const blocks: BlockMessage[] = [];
+		for (const content of message.message.content as any[]) {
+			if (content?.type !== 'tool_result') continue;
+			const isError = content.is_error === true;
+			blocks.push(
+				this.createBlockMessage('tool_result', stringifyToolResult(content.content), {
+					tool_use_id: content.tool_use_id,
+					tool_name: this.toolNames.get(content.tool_use_id) ?? null,
+					is_error: isError,
+					status: isError ? 'error' : 'success',
+					...(message.parent_tool_use_id && { parent_tool_use_id: message.parent_tool_use_id }),
+				}),
+			);
+		}
+		return blocks;
+	}
+}
@@ -0,0 +1,183 @@
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+import type { IDataObject } from 'n8n-workflow';
+
+export interface BudgetOptions {
+	maxCostUsd?: number;
+	maxInputTokens?: number;
+	maxOutputTokens?: number;
+	dailyBudgetUsd?: number;
+}
+
+export interface BudgetUsage {
+	input_tokens: number;
+	output_tokens: number;
+	cost_usd: number;
+	// True while the cost is estimated from streamed usage rather than reported by the SDK
+	estimated: boolean;
+}
+
+// Why a run was stopped, returned with errorType 'budget_exceeded'
+export interface BudgetExceeded {
+	limit: 'maxCostUsd' | 'maxInputTokens' | 'maxOutputTokens' | 'dailyBudgetUsd';
+	limitValue: number;
+	reason: string;
+	[key: string]: any; // Index signature for n8n IDataObject compatibility
+}
+
+interface TokenUsage {
+	input_tokens?: number;
+	output_tokens?: number;
+	cache_creation_input_tokens?: number;
+	cache_read_input_tokens?: number;
+}
+
+// USD per million tokens, used to estimate cost until the SDK reports the real total
+const MODEL_PRICING: Array<{ match: RegExp; input: number; output: number }> = [
+	{ match: /opus/i, input: 15, output: 75 },
+	{ match: /haiku/i, input: 0.8, output: 4 },
+	{ match: /.*/, input: 3, output: 15 },
+];
+const CACHE_WRITE_FACTOR = 1.25;
+const CACHE_READ_FACTOR = 0.1;
+
+const STATIC_DATA_KEY = 'claudeCodeDailySpend';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Estimates the cost of one API response from its token usage and the model's list price.
+ */
+export function estimateCostUsd(usage: TokenUsage, model: string): number {
+	const price = MODEL_PRICING.find((entry) => entry.match.test(model)) ?? MODEL_PRICING[2];
+	const inputTokens =
+		(usage.input_tokens ?? 0) +
+		(usage.cache_creation_input_tokens ?? 0) * CACHE_WRITE_FACTOR +
+		(usage.cache_read_input_tokens ?? 0) * CACHE_READ_FACTOR;
+	return (inputTokens * price.input + (usage.output_tokens ?? 0) * price.output) / 1_000_000;
+}
+
+function countInputTokens(usage: TokenUsage): number {
+	return (
+		(usage.input_tokens ?? 0) +
+		(usage.cache_creation_input_tokens ?? 0) +
+		(usage.cache_read_input_tokens ?? 0)
+	);
+}
+
+/**
+ * Whether any limit is configured. Zero or empty means unlimited.
+ */
+export function hasBudgetLimits(options: BudgetOptions): boolean {
+	return !!(
+		options.maxCostUsd ||
+		options.maxInputTokens ||
+		options.maxOutputTokens ||
+		options.dailyBudgetUsd
+	);
+}
+
+/**
+ * Rolling 24-hour spend shared by all Claude Code nodes of a workflow. Kept in the global
+ * workflow static data, which n8n only persists for production executions of active workflows.
+ */
+export class DailySpendStore {
+	constructor(private readonly staticData: IDataObject) {}
+
+	getSpentUsd(now = Date.now()): number {
+		return this.load(now).reduce((total, entry) => total + entry.costUsd, 0);
+	}
+
+	record(costUsd: number, now = Date.now()): void {
+		const entries = this.load(now);
+		if (costUsd > 0) entries.push({ timestamp: now, costUsd });
+		this.staticData[STATIC_DATA_KEY] = entries as unknown as IDataObject;
+	}
+
+	private load(now: number): Array<{ timestamp: number; costUsd: number }> {
+		const entries =
+			(this.staticData[STATIC_DATA_KEY] as Array<{ timestamp: number; costUsd: number }>) ?? [];
+		return entries.filter((entry) => now - entry.timestamp < DAY_MS);
+	}
+}
+
+/**
+ * Tracks token usage and cost while messages stream in. Assistant messages carry the usage of
+ * their API response (repeated for each content block, so responses are counted once by ID);
+ * each result message replaces those estimates with the cost reported by the SDK.
+ */
+export class BudgetTracker {
+	private model = '';
+	private readonly pending = new Map<string, TokenUsage>();
+	private completed = { input_tokens: 0, output_tokens: 0, cost_usd: 0 };
+
+	constructor(
+		private readonly options: BudgetOptions,
+		private readonly dailySpentUsd = 0,
+	) {}
+
+	/**
+	 * Records a message and returns the exceeded limit, if any.
+	 */
+	track(message: SDKMessage): BudgetExceeded | undefined {
+		if (message.type === 'system' && message.subtype === 'init') {
+			this.model = message.model;
+		} else if (message.type === 'assistant' && message.message?.usage) {
+			this.pending.set(message.message.id, message.message.usage as TokenUsage);
+		} else if (message.type === 'result') {
+			this.completed = {
+				input_tokens: this.completed.input_tokens + countInputTokens(message.usage),
+				output_tokens: this.completed.output_tokens + (message.usage.output_tokens ?? 0),
+				cost_usd: this.completed.cost_usd + (message.total_cost_usd ?? 0),
+			};
+			this.pending.clear();
+		}
+		return this.check();
+	}
+
+	getUsage(): BudgetUsage {
+		const usage = { ...this.completed, estimated: this.pending.size > 0 };
+		for (const pending of this.pending.values()) {
+			usage.input_tokens += countInputTokens(pending);
+			usage.output_tokens += pending.output_tokens ?? 0;
+			usage.cost_usd += estimateCostUsd(pending, this.model);
+		}
+		return usage;
+	}
+
+	/**
+	 * Returns the exceeded limit for the current usage, or undefined while within budget.
+	 */
+	check(): BudgetExceeded | undefined {
+		const { maxCostUsd, maxInputTokens, maxOutputTokens, dailyBudgetUsd } = this.options;
+		const usage = this.getUsage();
+
+		if (maxCostUsd && usage.cost_usd >= maxCostUsd) {
+			return {
+				limit: 'maxCostUsd',
+				limitValue: maxCostUsd,
+				reason: `Cost of $${usage.cost_usd.toFixed(4)} reached the limit of $${maxCostUsd} per execution`,
+			};
+		}
+		if (maxInputTokens && usage.input_tokens >= maxInputTokens) {
+			return {
+				limit: 'maxInputTokens',
+				limitValue: maxInputTokens,
+				reason: `${usage.input_tokens} input tokens reached the limit of ${maxInputTokens} per execution`,
+			};
+		}
+		if (maxOutputTokens && usage.output_tokens >= maxOutputTokens) {
+			return {
+				limit: 'maxOutputTokens',
+				limitValue: maxOutputTokens,
+				reason: `${usage.output_tokens} output tokens reached the limit of ${maxOutputTokens} per execution`,
+			};
+		}
+		if (dailyBudgetUsd && this.dailySpentUsd + usage.cost_usd >= dailyBudgetUsd) {
+			return {
+				limit: 'dailyBudgetUsd',
+				limitValue: dailyBudgetUsd,
+				reason: `Workflow spend of $${(this.dailySpentUsd + usage.cost_usd).toFixed(4)} in the last 24 hours reached the daily budget of $${dailyBudgetUsd}`,
+			};
+		}
+		return undefined;
+	}
+}
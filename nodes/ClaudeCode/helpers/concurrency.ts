@@ -0,0 +1,91 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+export type ItemErrorHandling = 'failFast' | 'collectAll';
+
+export interface ItemExecutionOptions {
+	concurrency?: number;
+	errorHandling?: ItemErrorHandling;
+}
+
+export interface ItemFailure {
+	index: number;
+	error: unknown;
+}
+
+export const itemExecutionProperty: INodeProperties = {
+	displayName: 'Item Execution',
+	name: 'itemExecution',
+	type: 'collection',
+	placeholder: 'Add Item Execution Option',
+	default: {},
+	description: 'How input items are run. Output items keep the order of the input items.',
+	options: [
+		{
+			displayName: 'Concurrency',
+			name: 'concurrency',
+			type: 'number',
+			typeOptions: {
+				minValue: 1,
+			},
+			default: 1,
+			description:
+				'Maximum number of items that run Claude Code at the same time. Items that share a project path can change the same files, so consider Workspace Isolation when running more than one.',
+		},
+		{
+			displayName: 'Error Handling',
+			name: 'errorHandling',
+			type: 'options',
+			options: [
+				{
+					name: 'Collect All Errors',
+					value: 'collectAll',
+					description: 'Let every item finish, then fail with the errors of all failed items',
+				},
+				{
+					name: 'Fail Fast',
+					value: 'failFast',
+					description: 'Stop running items and abort the ones in progress when an item fails',
+				},
+			],
+			default: 'failFast',
+			description:
+				'What happens when an item fails. Not used when the node is set to continue on fail, as failed items are then returned as output.',
+		},
+	],
+};
+
+/**
+ * Runs task for every index from 0 to count - 1, at most concurrency at a time, and returns the
+ * results in index order. With fail-fast error handling the first failure stops new items from
+ * starting and aborts the signal passed to the running ones; they are still awaited so their
+ * cleanup finishes. Failures are returned in the order they happened.
+ */
+export async function runConcurrently<T>(
+	count: number,
+	options: ItemExecutionOptions,
+	task: (index: number, signal: AbortSignal) => Promise<T>,
+): Promise<{ results: Array<T | undefined>; failures: ItemFailure[] }> {
+	const failFast = (options.errorHandling ?? 'failFast') === 'failFast';
+	const concurrency = Math.max(1, Math.floor(options.concurrency ?? 1));
+	const cancel = new AbortController();
+	const results: Array<T | undefined> = new Array(count).fill(undefined);
+	const failures: ItemFailure[] = [];
+	let next = 0;
+
+	const worker = async () => {
+		while (next < count && !cancel.signal.aborted) {
+			const index = next++;
+			try {
+				results[index] = await task(index, cancel.signal);
+			} catch (error) {
+				// Items aborted because of an earlier failure are not failures of their own
+				if (!cancel.signal.aborted) failures.push({ index, error });
+				if (failFast) cancel.abort();
+			}
+		}
+	};
+
+	await Promise.all(Array.from({ length: Math.min(concurrency, count) }, worker));
+	if (!failFast) failures.sort((a, b) => a.index - b.index);
+	return { results, failures };
+}
@@ -0,0 +1,241 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import { runExclusive } from './utils';
+
+export type ConversationOperation =
+	| 'conversation'
+	| 'listConversations'
+	| 'getConversation'
+	| 'deleteConversation'
+	| 'expireConversations';
+
+export const CONVERSATION_MANAGEMENT_OPERATIONS: ConversationOperation[] = [
+	'listConversations',
+	'getConversation',
+	'deleteConversation',
+	'expireConversations',
+];
+
+export function isConversationOperation(operation: string): operation is ConversationOperation {
+	return (
+		operation === 'conversation' ||
+		(CONVERSATION_MANAGEMENT_OPERATIONS as string[]).includes(operation)
+	);
+}
+
+export interface ConversationStoreOptions {
+	storage?: 'staticData' | 'file';
+	storeFilePath?: string;
+	ttl?: number;
+}
+
+// One stored conversation, keyed by a user-supplied conversation key (e.g. a Slack thread_ts)
+export interface ConversationRecord {
+	key: string;
+	sessionId: string;
+	createdAt: string;
+	lastUsedAt: string;
+	runCount: number;
+	totalCostUsd: number;
+	projectPath?: string;
+	[key: string]: any; // Index signature for n8n IDataObject compatibility
+}
+
+type ConversationMap = Record<string, ConversationRecord>;
+
+interface ConversationStore {
+	// Identifies the underlying storage, shared by every store instance that uses it
+	readonly lockKey: unknown;
+	load(): Promise<ConversationMap>;
+	save(conversations: ConversationMap): Promise<void>;
+}
+
+const STATIC_DATA_KEY = 'claudeCodeConversations';
+
+/**
+ * Keeps conversations in the node's workflow static data. n8n only persists static data for
+ * production executions of active workflows, not for manual test runs.
+ */
+class StaticDataConversationStore implements ConversationStore {
+	constructor(private readonly staticData: IDataObject) {}
+
+	get lockKey(): unknown {
+		return this.staticData;
+	}
+
+	async load(): Promise<ConversationMap> {
+		return { ...((this.staticData[STATIC_DATA_KEY] as ConversationMap | undefined) ?? {}) };
+	}
+
+	async save(conversations: ConversationMap): Promise<void> {
+		this.staticData[STATIC_DATA_KEY] = conversations as unknown as IDataObject;
+	}
+}
+
+/**
+ * Keeps conversations in a local JSON file, shared by every workflow that points at it.
+ */
+class FileConversationStore implements ConversationStore {
+	constructor(private readonly filePath: string) {}
+
+	get lockKey(): unknown {
+		return path.resolve(this.filePath);
+	}
+
+	async load(): Promise<ConversationMap> {
+		try {
+			const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+			return (parsed?.conversations as ConversationMap | undefined) ?? {};
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+			throw new Error(`Could not read conversation store ${this.filePath}: ${error.message}`);
+		}
+	}
+
+	async save(conversations: ConversationMap): Promise<void> {
+		await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+		// Write to a temp file first so a crash never leaves a truncated store behind
+		const tempPath = `${this.filePath}.${process.pid}.tmp`;
+		await fs.writeFile(tempPath, JSON.stringify({ conversations }, null, 2));
+		await fs.rename(tempPath, this.filePath);
+	}
+}
+
+/**
+ * Conversation key to Claude session mapping with TTL-based expiry.
+ */
+export class ConversationManager {
+	private readonly ttlMs: number;
+
+	constructor(
+		private readonly store: ConversationStore,
+		ttlMinutes: number,
+	) {
+		this.ttlMs = Math.max(0, ttlMinutes) * 60 * 1000;
+	}
+
+	isExpired(record: ConversationRecord, now = Date.now()): boolean {
+		return this.ttlMs > 0 && now - new Date(record.lastUsedAt).getTime() > this.ttlMs;
+	}
+
+	/**
+	 * Returns the active conversation for a key, or undefined when there is none or it expired.
+	 */
+	async get(key: string): Promise<ConversationRecord | undefined> {
+		const record = (await this.store.load())[key];
+		return record && !this.isExpired(record) ? record : undefined;
+	}
+
+	async list(): Promise<Array<ConversationRecord & { expired: boolean }>> {
+		const now = Date.now();
+		return Object.values(await this.store.load())
+			.map((record) => ({ ...record, expired: this.isExpired(record, now) }))
+			.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+	}
+
+	/**
+	 * Records a completed run for a key, starting a new record when the session changed.
+	 */
+	async recordRun(
+		key: string,
+		sessionId: string,
+		run: { totalCostUsd?: number; projectPath?: string },
+	): Promise<ConversationRecord> {
+		return await this.update(async () => {
+			const conversations = await this.store.load();
+			const previous = conversations[key];
+			const now = new Date().toISOString();
+			const isSameConversation = previous && !this.isExpired(previous);
+
+			const record: ConversationRecord = {
+				key,
+				sessionId,
+				createdAt: isSameConversation ? previous.createdAt : now,
+				lastUsedAt: now,
+				runCount: (isSameConversation ? previous.runCount : 0) + 1,
+				totalCostUsd: (isSameConversation ? previous.totalCostUsd : 0) + (run.totalCostUsd ?? 0),
+				...(run.projectPath && { projectPath: run.projectPath }),
+			};
+
+			conversations[key] = record;
+			await this.store.save(conversations);
+			return record;
+		});
+	}
+
+	async delete(key: string): Promise<boolean> {
+		return await this.update(async () => {
+			const conversations = await this.store.load();
+			if (!conversations[key]) return false;
+			delete conversations[key];
+			await this.store.save(conversations);
+			return true;
+		});
+	}
+
+	/**
+	 * Removes every conversation whose TTL has passed and returns the removed keys.
+	 */
+	async expire(): Promise<string[]> {
+		return await this.update(async () => {
+			const conversations = await this.store.load();
+			const now = Date.now();
+			const expiredKeys = Object.keys(conversations).filter((key) =>
+				this.isExpired(conversations[key], now),
+			);
+			if (expiredKeys.length > 0) {
+				for (const key of expiredKeys) delete conversations[key];
+				await this.store.save(conversations);
+			}
+			return expiredKeys;
+		});
+	}
+
+	private async update<T>(change: () => Promise<T>): Promise<T> {
+		return await runExclusive(this.store.lockKey, change);
+	}
+}
+
+export function createConversationManager(
+	context: IExecuteFunctions,
+	options: ConversationStoreOptions,
+): ConversationManager {
+	let store: ConversationStore;
+	if (options.storage === 'file') {
+		const filePath = options.storeFilePath?.trim();
+		if (!filePath) {
+			throw new Error('Store file path is required when conversations are stored in a file');
+		}
+		store = new FileConversationStore(filePath);
+	} else {
+		store = new StaticDataConversationStore(context.getWorkflowStaticData('node'));
+	}
+	return new ConversationManager(store, options.ttl ?? 0);
+}
+
+/**
+ * Runs one of the list/get/delete/expire operations and returns the output items' JSON.
+ */
+export async function executeConversationManagement(
+	manager: ConversationManager,
+	operation: ConversationOperation,
+	conversationKey: string,
+): Promise<IDataObject[]> {
+	switch (operation) {
+		case 'listConversations':
+			return await manager.list();
+		case 'getConversation': {
+			const record = (await manager.list()).find((r) => r.key === conversationKey);
+			return [record ? { ...record, found: true } : { key: conversationKey, found: false }];
+		}
+		case 'deleteConversation':
+			return [{ key: conversationKey, deleted: await manager.delete(conversationKey) }];
+		case 'expireConversations': {
+			const expiredKeys = await manager.expire();
+			return [{ expiredCount: expiredKeys.length, expiredKeys }];
+		}
+		default:
+			throw new Error(`Unsupported conversation operation: ${operation}`);
+	}
+}
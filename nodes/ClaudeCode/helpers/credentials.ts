@@ -0,0 +1,218 @@
+import { existsSync } from 'fs';
+import type {
+	ICredentialsDecrypted,
+	ICredentialTestFunctions,
+	IExecuteFunctions,
+	INodeCredentialTestResult,
+} from 'n8n-workflow';
+
+export const CLAUDE_CODE_CREDENTIAL_TYPE = 'claudeCodeApi';
+
+export interface ClaudeCodeCredentials {
+	provider?: 'anthropic' | 'bedrock' | 'vertex';
+	apiKey?: string;
+	baseUrl?: string;
+	awsRegion?: string;
+	awsAccessKeyId?: string;
+	awsSecretAccessKey?: string;
+	awsSessionToken?: string;
+	bedrockBaseUrl?: string;
+	vertexProjectId?: string;
+	vertexRegion?: string;
+	googleCredentialsPath?: string;
+	mcpSecrets?: string;
+}
+
+// Provider and authentication variables that must not leak in from the n8n host process
+const PROVIDER_ENV_VARS = [
+	'ANTHROPIC_API_KEY',
+	'ANTHROPIC_AUTH_TOKEN',
+	'ANTHROPIC_BASE_URL',
+	'CLAUDE_CODE_USE_BEDROCK',
+	'CLAUDE_CODE_USE_VERTEX',
+	'ANTHROPIC_BEDROCK_BASE_URL',
+	'ANTHROPIC_VERTEX_PROJECT_ID',
+	'CLOUD_ML_REGION',
+];
+
+function isValidUrl(value: string): boolean {
+	try {
+		const url = new URL(value);
+		return url.protocol === 'http:' || url.protocol === 'https:';
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Parses the MCP secrets of a credential, a JSON object of string values.
+ */
+export function parseMcpSecrets(mcpSecrets: string | undefined): Record<string, string> {
+	if (!mcpSecrets || !mcpSecrets.trim()) return {};
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(mcpSecrets);
+	} catch (error) {
+		throw new Error(`MCP secrets are not valid JSON: ${(error as Error).message}`);
+	}
+	if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+		throw new Error('MCP secrets must be a JSON object');
+	}
+	for (const [name, value] of Object.entries(parsed)) {
+		if (typeof value !== 'string') {
+			throw new Error(`MCP secret "${name}" must be a string`);
+		}
+	}
+	return parsed as Record<string, string>;
+}
+
+/**
+ * Checks a credential without contacting any API. Returns a list of problems, empty when valid.
+ */
+export function validateCredentials(credentials: ClaudeCodeCredentials): string[] {
+	const problems: string[] = [];
+	const provider = credentials.provider ?? 'anthropic';
+
+	if (provider === 'anthropic') {
+		const apiKey = credentials.apiKey?.trim();
+		if (!apiKey) {
+			problems.push('API key is required');
+		} else if (!apiKey.startsWith('sk-ant-') && !credentials.baseUrl?.trim()) {
+			problems.push('API key should start with "sk-ant-"');
+		}
+		if (credentials.baseUrl?.trim() && !isValidUrl(credentials.baseUrl.trim())) {
+			problems.push(`Base URL "${credentials.baseUrl}" is not a valid http(s) URL`);
+		}
+	} else if (provider === 'bedrock') {
+		if (!credentials.awsRegion?.trim()) {
+			problems.push('AWS region is required for Bedrock');
+		}
+		if (!!credentials.awsAccessKeyId?.trim() !== !!credentials.awsSecretAccessKey?.trim()) {
+			problems.push('AWS access key ID and secret access key must be provided together');
+		}
+		if (credentials.bedrockBaseUrl?.trim() && !isValidUrl(credentials.bedrockBaseUrl.trim())) {
+			problems.push(`Bedrock base URL "${credentials.bedrockBaseUrl}" is not a valid http(s) URL`);
+		}
+	} else if (provider === 'vertex') {
+		if (!credentials.vertexProjectId?.trim()) {
+			problems.push('Vertex project ID is required');
+		}
+		if (!credentials.vertexRegion?.trim()) {
+			problems.push('Vertex region is required');
+		}
+		const keyFile = credentials.googleCredentialsPath?.trim();
+		if (keyFile && !existsSync(keyFile)) {
+			problems.push(`Service account key file "${keyFile}" does not exist on the n8n host`);
+		}
+	} else {
+		problems.push(`Unknown provider "${provider}"`);
+	}
+
+	try {
+		parseMcpSecrets(credentials.mcpSecrets);
+	} catch (error) {
+		problems.push((error as Error).message);
+	}
+
+	return problems;
+}
+
+/**
+ * Builds the environment for the Claude Code subprocess. The SDK replaces the whole
+ * environment when `env` is set, so the host environment is copied first and any provider
+ * settings it carries are dropped in favour of the credential.
+ */
+export function buildCredentialEnvironment(
+	credentials: ClaudeCodeCredentials,
+): Record<string, string> {
+	const env: Record<string, string> = {};
+	for (const [key, value] of Object.entries(process.env)) {
+		if (value !== undefined && !PROVIDER_ENV_VARS.includes(key)) {
+			env[key] = value;
+		}
+	}
+
+	const set = (key: string, value: string | undefined) => {
+		if (value && value.trim()) env[key] = value.trim();
+	};
+
+	switch (credentials.provider ?? 'anthropic') {
+		case 'anthropic':
+			set('ANTHROPIC_API_KEY', credentials.apiKey);
+			set('ANTHROPIC_BASE_URL', credentials.baseUrl);
+			break;
+		case 'bedrock':
+			env.CLAUDE_CODE_USE_BEDROCK = '1';
+			set('AWS_REGION', credentials.awsRegion);
+			set('AWS_ACCESS_KEY_ID', credentials.awsAccessKeyId);
+			set('AWS_SECRET_ACCESS_KEY', credentials.awsSecretAccessKey);
+			set('AWS_SESSION_TOKEN', credentials.awsSessionToken);
+			set('ANTHROPIC_BEDROCK_BASE_URL', credentials.bedrockBaseUrl);
+			break;
+		case 'vertex':
+			env.CLAUDE_CODE_USE_VERTEX = '1';
+			set('ANTHROPIC_VERTEX_PROJECT_ID', credentials.vertexProjectId);
+			set('CLOUD_ML_REGION', credentials.vertexRegion);
+			set('GOOGLE_APPLICATION_CREDENTIALS', credentials.googleCredentialsPath);
+			break;
+	}
+
+	return env;
+}
+
+/**
+ * Returns the subprocess environment for the node's Claude Code credential, or undefined when
+ * no credential is selected and the SDK should fall back to the host login.
+ */
+export async function getCredentialEnvironment(
+	context: IExecuteFunctions,
+	itemIndex: number,
+): Promise<Record<string, string> | undefined> {
+	if (!context.getNode().credentials?.[CLAUDE_CODE_CREDENTIAL_TYPE]) {
+		return undefined;
+	}
+
+	const credentials = await context.getCredentials<ClaudeCodeCredentials>(
+		CLAUDE_CODE_CREDENTIAL_TYPE,
+		itemIndex,
+	);
+	const problems = validateCredentials(credentials);
+	if (problems.length > 0) {
+		throw new Error(`Invalid Claude Code credentials: ${problems.join('; ')}`);
+	}
+	return buildCredentialEnvironment(credentials);
+}
+
+/**
+ * Returns the MCP secrets of the node's Claude Code credential, or an empty object when no
+ * credential is selected.
+ */
+export async function getMcpSecrets(
+	context: IExecuteFunctions,
+	itemIndex: number,
+): Promise<Record<string, string>> {
+	if (!context.getNode().credentials?.[CLAUDE_CODE_CREDENTIAL_TYPE]) {
+		return {};
+	}
+
+	const credentials = await context.getCredentials<ClaudeCodeCredentials>(
+		CLAUDE_CODE_CREDENTIAL_TYPE,
+		itemIndex,
+	);
+	return parseMcpSecrets(credentials.mcpSecrets);
+}
+
+/**
+ * Credential test used by both nodes. It only validates the configuration locally so that
+ * testing never spends tokens or depends on network access from the editor.
+ */
+export async function claudeCodeApiCredentialTest(
+	this: ICredentialTestFunctions,
+	credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+	const problems = validateCredentials((credential.data ?? {}) as ClaudeCodeCredentials);
+	if (problems.length > 0) {
+		return { status: 'Error', message: problems.join('; ') };
+	}
+	return { status: 'OK', message: 'Configuration is valid' };
+}
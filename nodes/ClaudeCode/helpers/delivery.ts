@@ -0,0 +1,208 @@
+import { promises as fs } from 'fs';
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import type { BlockMessage } from './interfaces';
+import { getExecutionIdSafe } from './utils';
+
+export type DeliveryMode = 'none' | 'webhook' | 'file';
+
+export interface DeliveryOptions {
+	liveDelivery?: DeliveryMode;
+	webhookUrl?: string;
+	webhookHeaders?: string;
+	filePath?: string;
+	batchSize?: number;
+	batchInterval?: number;
+}
+
+// Envelope sent to the sink for every block message and for the final completion event
+export interface DeliveryEvent {
+	event: 'block_message' | 'completed';
+	sequence: number;
+	executionId: string;
+	itemIndex: number;
+	sentAt: string;
+	message?: BlockMessage;
+	result?: IDataObject;
+}
+
+export interface DeliveryStats {
+	mode: DeliveryMode;
+	eventsQueued: number;
+	eventsDelivered: number;
+	batchesDelivered: number;
+	errors: string[];
+}
+
+type Transport = (events: DeliveryEvent[]) => Promise<void>;
+
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Delivers block messages to an external sink while the query is still running.
+ *
+ * Events are numbered per item and flushed in batches through a single promise chain,
+ * so a batch is never sent before the previous one has been delivered or given up on.
+ */
+export class BlockMessageSink {
+	private buffer: DeliveryEvent[] = [];
+	private sequence = 0;
+	private flushChain: Promise<void> = Promise.resolve();
+	private flushTimer: NodeJS.Timeout | undefined;
+	private closed = false;
+	private readonly stats: DeliveryStats;
+
+	constructor(
+		private readonly transport: Transport,
+		private readonly meta: { executionId: string; itemIndex: number; mode: DeliveryMode },
+		private readonly batchSize: number,
+		private readonly batchInterval: number,
+		// Called after each batch with whether it was delivered
+		private readonly onDelivery?: (delivered: boolean) => void,
+	) {
+		this.stats = {
+			mode: meta.mode,
+			eventsQueued: 0,
+			eventsDelivered: 0,
+			batchesDelivered: 0,
+			errors: [],
+		};
+	}
+
+	push(message: BlockMessage): void {
+		if (this.closed) return;
+		this.enqueue({ event: 'block_message', message });
+
+		if (this.buffer.length >= this.batchSize) {
+			this.flush();
+		} else if (!this.flushTimer) {
+			this.flushTimer = setTimeout(() => this.flush(), this.batchInterval);
+		}
+	}
+
+	/**
+	 * Queues the final "completed" event, flushes everything still buffered and waits
+	 * until the sink has received it. Never throws; failures end up in the stats.
+	 */
+	async close(result: IDataObject): Promise<DeliveryStats> {
+		if (!this.closed) {
+			this.enqueue({ event: 'completed', result });
+			this.closed = true;
+			this.flush();
+		}
+		await this.flushChain;
+		return this.getStats();
+	}
+
+	getStats(): DeliveryStats {
+		return { ...this.stats, errors: [...this.stats.errors] };
+	}
+
+	private enqueue(event: Pick<DeliveryEvent, 'event' | 'message' | 'result'>): void {
+		this.buffer.push({
+			...event,
+			sequence: this.sequence++,
+			executionId: this.meta.executionId,
+			itemIndex: this.meta.itemIndex,
+			sentAt: new Date().toISOString(),
+		});
+		this.stats.eventsQueued++;
+	}
+
+	private flush(): void {
+		if (this.flushTimer) {
+			clearTimeout(this.flushTimer);
+			this.flushTimer = undefined;
+		}
+		if (this.buffer.length === 0) return;
+
+		const batch = this.buffer;
+		this.buffer = [];
+		this.flushChain = this.flushChain.then(async () => await this.send(batch));
+	}
+
+	private async send(batch: DeliveryEvent[]): Promise<void> {
+		let lastError: unknown;
+		for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+			try {
+				await this.transport(batch);
+				this.stats.eventsDelivered += batch.length;
+				this.stats.batchesDelivered++;
+				this.onDelivery?.(true);
+				return;
+			} catch (error) {
+				lastError = error;
+				if (attempt < MAX_ATTEMPTS) {
+					await new Promise((resolve) => setTimeout(resolve, 250 * attempt));
+				}
+			}
+		}
+
+		this.onDelivery?.(false);
+		const reason = lastError instanceof Error ? lastError.message : String(lastError);
+		this.stats.errors.push(
+			`Failed to deliver events ${batch[0].sequence}-${batch[batch.length - 1].sequence}: ${reason}`,
+		);
+	}
+}
+
+function parseHeaders(headers: string | undefined): IDataObject {
+	if (!headers || !headers.trim()) return {};
+	try {
+		const parsed = JSON.parse(headers);
+		if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+			throw new Error('expected a JSON object');
+		}
+		return parsed as IDataObject;
+	} catch (error) {
+		throw new Error(`Invalid webhook headers: ${(error as Error).message}`);
+	}
+}
+
+/**
+ * Creates the sink for the configured live delivery mode, or undefined when live delivery
+ * is disabled. Throws on incomplete configuration so the item fails before the query starts.
+ */
+export function createBlockMessageSink(
+	context: IExecuteFunctions,
+	options: DeliveryOptions,
+	itemIndex: number,
+	onDelivery?: (delivered: boolean) => void,
+): BlockMessageSink | undefined {
+	const mode = options.liveDelivery ?? 'none';
+	if (mode === 'none') return undefined;
+
+	let transport: Transport;
+	if (mode === 'webhook') {
+		const url = options.webhookUrl?.trim();
+		if (!url) {
+			throw new Error('Webhook URL is required for webhook live delivery');
+		}
+		const headers = parseHeaders(options.webhookHeaders);
+		transport = async (events) => {
+			await context.helpers.httpRequest({
+				method: 'POST',
+				url,
+				headers,
+				body: { events },
+				json: true,
+			});
+		};
+	} else {
+		const filePath = options.filePath?.trim();
+		if (!filePath) {
+			throw new Error('File path is required for file live delivery');
+		}
+		// One JSON document per line, so the file (or named pipe) can be tailed as NDJSON
+		transport = async (events) => {
+			await fs.appendFile(filePath, events.map((event) => JSON.stringify(event) + '\n').join(''));
+		};
+	}
+
+	return new BlockMessageSink(
+		transport,
+		{ executionId: getExecutionIdSafe(context), itemIndex, mode },
+		Math.max(1, options.batchSize ?? 1),
+		Math.max(0, options.batchInterval ?? 500),
+		onDelivery,
+	);
+}
@@ -0,0 +1,467 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import type { INodeProperties } from 'n8n-workflow';
+
+const execFileAsync = promisify(execFile);
+
+export interface GitChangeOptions {
+	captureChanges?: boolean;
+	branchName?: string;
+	commitChanges?: boolean;
+	commitMessage?: string;
+	resetOnFailure?: boolean;
+	maxDiffLength?: number;
+}
+
+export interface GitFileChange {
+	path: string;
+	status: 'added' | 'modified' | 'deleted' | 'renamed' | 'typechange';
+	oldPath?: string;
+	additions: number;
+	deletions: number;
+	binary: boolean;
+	[key: string]: any; // Index signature for n8n IDataObject compatibility
+}
+
+export interface GitChanges {
+	repository: string;
+	headBefore: string | null;
+	headAfter: string | null;
+	files: GitFileChange[];
+	stats: { filesChanged: number; additions: number; deletions: number };
+	diff: string;
+	diffTruncated: boolean;
+	branch?: string;
+	commit?: string;
+	reset?: boolean;
+	errors: string[];
+	[key: string]: any; // Index signature for n8n IDataObject compatibility
+}
+
+// Values available to the branch name and commit message templates
+export interface GitTemplateValues {
+	executionId: string;
+	itemIndex: number;
+	sessionId: string | null;
+	prompt: string;
+}
+
+export const gitChangesProperty: INodeProperties = {
+	displayName: 'Git Change Capture',
+	name: 'gitChanges',
+	type: 'collection',
+	placeholder: 'Add Git Option',
+	default: {},
+	description:
+		'Snapshots the git repository of the project path before the run and adds the changed files and diff to the output as "changes". Works with local repositories without a remote.',
+	options: [
+		{
+			displayName: 'Branch Name',
+			name: 'branchName',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g., claude/{executionId}-{itemIndex}',
+			description:
+				'Create this branch after a successful run and check it out in the project path, so the checkout moves off its current branch (use Workspace Isolation to leave it alone). Supports {executionId}, {itemIndex}, {sessionId} and {prompt}. Leave empty to stay on the current branch.',
+			displayOptions: {
+				show: {
+					captureChanges: [true],
+				},
+			},
+		},
+		{
+			displayName: 'Capture Changes',
+			name: 'captureChanges',
+			type: 'boolean',
+			default: true,
+			description: 'Whether to add the changes made during the run to the output',
+		},
+		{
+			displayName: 'Commit Changes',
+			name: 'commitChanges',
+			type: 'boolean',
+			default: false,
+			description: 'Whether to commit the changed files in the project path after a successful run',
+			displayOptions: {
+				show: {
+					captureChanges: [true],
+				},
+			},
+		},
+		{
+			displayName: 'Commit Message',
+			name: 'commitMessage',
+			type: 'string',
+			typeOptions: {
+				rows: 2,
+			},
+			default: 'Claude Code: {prompt}',
+			description:
+				'Message of the commit. Supports {executionId}, {itemIndex}, {sessionId}, {prompt} (its first line) and {files} (the number of changed files).',
+			displayOptions: {
+				show: {
+					captureChanges: [true],
+					commitChanges: [true],
+				},
+			},
+		},
+		{
+			displayName: 'Max Diff Length',
+			name: 'maxDiffLength',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 100000,
+			description:
+				'Maximum number of characters of the unified diff in the output. 0 means unlimited.',
+			displayOptions: {
+				show: {
+					captureChanges: [true],
+				},
+			},
+		},
+		{
+			displayName: 'Reset on Failure',
+			name: 'resetOnFailure',
+			type: 'boolean',
+			default: false,
+			description:
+				'Whether to restore the files in the project path to their state before the run when the run fails',
+			displayOptions: {
+				show: {
+					captureChanges: [true],
+				},
+			},
+		},
+	],
+};
+
+// Used for commits when the repository has no user.name/user.email configured
+const FALLBACK_IDENTITY = { name: 'n8n Claude Code', email: 'claude-code@n8n.local' };
+
+async function git(cwd: string, args: string[], env?: Record<string, string>): Promise<string> {
+	const { stdout } = await execFileAsync('git', args, {
+		cwd,
+		env: env ? { ...process.env, ...env } : process.env,
+		maxBuffer: 64 * 1024 * 1024,
+	});
+	return stdout;
+}
+
+async function tryGit(cwd: string, args: string[]): Promise<string | null> {
+	try {
+		return (await git(cwd, args)).trim();
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Fills {name} placeholders in a branch name or commit message template.
+ */
+export function renderGitTemplate(
+	template: string,
+	values: GitTemplateValues & { files?: number },
+): string {
+	const replacements: Record<string, string> = {
+		executionId: values.executionId,
+		itemIndex: String(values.itemIndex),
+		sessionId: values.sessionId ?? '',
+		prompt: values.prompt.split('\n')[0].trim().slice(0, 72),
+		files: String(values.files ?? 0),
+	};
+	return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+		name in replacements ? replacements[name] : match,
+	);
+}
+
+/**
+ * Turns a rendered template into a valid branch name.
+ */
+export function sanitizeBranchName(name: string): string {
+	return name
+		.trim()
+		.replace(/[\s~^:?*[\]\\]+/g, '-')
+		.replace(/\.{2,}/g, '.')
+		.replace(/@\{/g, '-')
+		.replace(/\/{2,}/g, '/')
+		.replace(/^[-/.]+|[/.]+$|\.lock$/g, '');
+}
+
+const STATUS_CODES: Record<string, GitFileChange['status']> = {
+	A: 'added',
+	D: 'deleted',
+	M: 'modified',
+	T: 'typechange',
+};
+
+function parseFileChanges(nameStatus: string, numstat: string): GitFileChange[] {
+	const stats = new Map<string, { additions: number; deletions: number; binary: boolean }>();
+	const numstatFields = numstat.split('\0');
+	for (let i = 0; i < numstatFields.length - 1; i++) {
+		const [additions, deletions, file] = numstatFields[i].split('\t');
+		// Renames list an empty path followed by the old and new paths as separate fields
+		const filePath = file === '' ? numstatFields[(i += 2)] : file;
+		stats.set(filePath, {
+			additions: additions === '-' ? 0 : Number(additions),
+			deletions: deletions === '-' ? 0 : Number(deletions),
+			binary: additions === '-',
+		});
+	}
+
+	const files: GitFileChange[] = [];
+	const fields = nameStatus.split('\0');
+	for (let i = 0; i < fields.length - 1; i++) {
+		const code = fields[i];
+		const renamed = code.startsWith('R') || code.startsWith('C');
+		const oldPath = renamed ? fields[++i] : undefined;
+		const filePath = fields[++i];
+		files.push({
+			path: filePath,
+			status: renamed ? 'renamed' : (STATUS_CODES[code] ?? 'modified'),
+			...(oldPath && { oldPath }),
+			...(stats.get(filePath) ?? { additions: 0, deletions: 0, binary: false }),
+		});
+	}
+	return files;
+}
+
+/**
+ * Records the state of a git working tree, including uncommitted and untracked files, without
+ * touching the repository's index, stash or branches: the files are written as a tree object
+ * through a temporary index.
+ */
+export class GitSnapshot {
+	private constructor(
+		readonly projectPath: string,
+		readonly repository: string,
+		readonly head: string | null,
+		readonly tree: string,
+	) {}
+
+	/**
+	 * Takes the snapshot, or returns undefined when the project path is not inside a git
+	 * repository.
+	 */
+	static async take(projectPath: string): Promise<GitSnapshot | undefined> {
+		const repository = await tryGit(projectPath, ['rev-parse', '--show-toplevel']);
+		if (!repository) return undefined;
+		return new GitSnapshot(
+			projectPath,
+			repository,
+			await tryGit(projectPath, ['rev-parse', '--verify', '--quiet', 'HEAD']),
+			await GitSnapshot.writeTree(projectPath),
+		);
+	}
+
+	private static async writeTree(projectPath: string): Promise<string> {
+		const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-code-git-'));
+		const indexFile = path.join(tempDir, 'index');
+		try {
+			// Start from the real index so unchanged files are not hashed again
+			const realIndex = path.resolve(
+				projectPath,
+				(await git(projectPath, ['rev-parse', '--git-path', 'index'])).trim(),
+			);
+			await fs.copyFile(realIndex, indexFile).catch(() => undefined);
+
+			// Ignored files stay out of the snapshot, just like they stay out of commits
+			const env = { GIT_INDEX_FILE: indexFile };
+			await git(projectPath, ['add', '--all', '--', ':/'], env);
+			return (await git(projectPath, ['write-tree'], env)).trim();
+		} finally {
+			await fs.rm(tempDir, { recursive: true, force: true });
+		}
+	}
+
+	/**
+	 * Compares the working tree with the snapshot, limited to the project path.
+	 */
+	async diff(maxDiffLength = 0): Promise<GitChanges> {
+		const after = await GitSnapshot.writeTree(this.projectPath);
+		const range = [this.tree, after, '--', '.'];
+		const [nameStatus, numstat, diff] = await Promise.all([
+			git(this.projectPath, ['diff', '--name-status', '-z', '-M', '--relative', ...range]),
+			git(this.projectPath, ['diff', '--numstat', '-z', '-M', '--relative', ...range]),
+			git(this.projectPath, ['diff', '-M', '--relative', ...range]),
+		]);
+
+		const files = parseFileChanges(nameStatus, numstat);
+		const truncated = maxDiffLength > 0 && diff.length > maxDiffLength;
+		return {
+			repository: this.repository,
+			headBefore: this.head,
+			headAfter: await tryGit(this.projectPath, ['rev-parse', '--verify', '--quiet', 'HEAD']),
+			files,
+			stats: {
+				filesChanged: files.length,
+				additions: files.reduce((total, file) => total + file.additions, 0),
+				deletions: files.reduce((total, file) => total + file.deletions, 0),
+			},
+			diff: truncated ? diff.slice(0, maxDiffLength) : diff,
+			diffTruncated: truncated,
+			errors: [],
+		};
+	}
+
+	/**
+	 * Restores the files under the project path to the snapshot: changed and deleted files are
+	 * checked out from the snapshot tree and files created during the run are removed.
+	 */
+	async reset(changes: GitChanges): Promise<void> {
+		const restore = changes.files.flatMap((file) =>
+			file.status === 'added' ? [] : [file.oldPath ?? file.path],
+		);
+		const created = changes.files.flatMap((file) =>
+			file.status === 'added' || file.status === 'renamed' ? [file.path] : [],
+		);
+
+		for (const file of created) {
+			await fs.rm(path.join(this.projectPath, file), { force: true });
+		}
+		if (restore.length > 0) {
+			await git(this.projectPath, [
+				'restore',
+				`--source=${this.tree}`,
+				'--worktree',
+				'--',
+				...restore,
+			]);
+		}
+	}
+
+	/**
+	 * Creates a new branch and checks it out in the project path, keeping the working tree
+	 * changes. The checkout of the project path moves off its current branch.
+	 */
+	async createBranch(name: string): Promise<void> {
+		await git(this.projectPath, ['checkout', '-b', name]);
+	}
+
+	/**
+	 * Commits the changes made during the run and returns the commit hash. The commit is built
+	 * in a temporary index from HEAD plus the diff between the snapshot and the working tree, so
+	 * changes that were already uncommitted before the run stay uncommitted.
+	 */
+	async commit(message: string, changes: GitChanges): Promise<string> {
+		const paths = changes.files.flatMap((file) =>
+			file.oldPath ? [file.oldPath, file.path] : [file.path],
+		);
+		const after = await GitSnapshot.writeTree(this.projectPath);
+		const patch = await git(this.projectPath, [
+			'diff',
+			'--binary',
+			'--full-index',
+			'--no-color',
+			'--no-ext-diff',
+			'--src-prefix=a/',
+			'--dst-prefix=b/',
+			this.tree,
+			after,
+			'--',
+			'.',
+		]);
+		const head = await tryGit(this.projectPath, ['rev-parse', '--verify', '--quiet', 'HEAD']);
+
+		const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-code-git-'));
+		let tree: string;
+		try {
+			const env = { GIT_INDEX_FILE: path.join(tempDir, 'index') };
+			const patchFile = path.join(tempDir, 'run.patch');
+			await fs.writeFile(patchFile, patch);
+			await git(this.repository, head ? ['read-tree', head] : ['read-tree', '--empty'], env);
+			try {
+				await git(this.repository, ['apply', '--cached', patchFile], env);
+			} catch {
+				throw new Error(
+					'the changes of the run overlap uncommitted changes that were there before the run',
+				);
+			}
+			tree = (await git(this.repository, ['write-tree'], env)).trim();
+		} finally {
+			await fs.rm(tempDir, { recursive: true, force: true });
+		}
+
+		const identity: Record<string, string> = {};
+		if (!(await tryGit(this.projectPath, ['config', 'user.name']))) {
+			identity.GIT_AUTHOR_NAME = identity.GIT_COMMITTER_NAME = FALLBACK_IDENTITY.name;
+		}
+		if (!(await tryGit(this.projectPath, ['config', 'user.email']))) {
+			identity.GIT_AUTHOR_EMAIL = identity.GIT_COMMITTER_EMAIL = FALLBACK_IDENTITY.email;
+		}
+		const commit = (
+			await git(
+				this.repository,
+				['commit-tree', tree, ...(head ? ['-p', head] : []), '-m', message],
+				identity,
+			)
+		).trim();
+		await git(this.repository, [
+			'update-ref',
+			'-m',
+			`commit: ${message.split('\n')[0]}`,
+			'HEAD',
+			commit,
+			...(head ? [head] : []),
+		]);
+		// Stage the committed versions of the run's files, so only earlier edits show as uncommitted
+		await git(this.projectPath, ['reset', '--quiet', 'HEAD', '--', ...paths]);
+		return commit;
+	}
+}
+
+/**
+ * Collects the changes of a finished run and applies the follow-up actions: branch and commit
+ * after a successful run, reset after a failed one. Action failures are reported in
+ * changes.errors instead of failing the item.
+ */
+export async function finishGitChanges(
+	snapshot: GitSnapshot,
+	options: GitChangeOptions,
+	success: boolean,
+	templateValues: GitTemplateValues,
+): Promise<GitChanges> {
+	const changes = await snapshot.diff(options.maxDiffLength ?? 100000);
+	const report = (action: string, error: unknown) =>
+		changes.errors.push(`${action} failed: ${(error as Error).message}`);
+
+	if (!success) {
+		if (options.resetOnFailure && changes.files.length > 0) {
+			try {
+				await snapshot.reset(changes);
+				changes.reset = true;
+			} catch (error) {
+				report('Reset', error);
+			}
+		}
+		return changes;
+	}
+
+	if (options.branchName?.trim()) {
+		const branch = sanitizeBranchName(renderGitTemplate(options.branchName, templateValues));
+		try {
+			await snapshot.createBranch(branch);
+			changes.branch = branch;
+		} catch (error) {
+			report(`Creating branch "${branch}"`, error);
+		}
+	}
+
+	if (options.commitChanges && changes.files.length > 0) {
+		const message = renderGitTemplate(options.commitMessage || 'Claude Code: {prompt}', {
+			...templateValues,
+			files: changes.files.length,
+		});
+		try {
+			changes.commit = await snapshot.commit(message, changes);
+		} catch (error) {
+			report('Commit', error);
+		}
+	}
+
+	return changes;
+}
@@ -0,0 +1,8 @@
+// Interface for structured block messages
+export interface BlockMessage {
+	type: 'text' | 'code' | 'thinking' | 'tool_use' | 'tool_result' | 'error' | 'status';
+	content: string;
+	timestamp: string;
+	metadata?: Record<string, any>;
+	[key: string]: any; // Index signature for n8n IDataObject compatibility
+}
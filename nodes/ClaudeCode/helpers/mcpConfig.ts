@@ -0,0 +1,282 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { McpServerConfig } from '@anthropic-ai/claude-code';
+import { parse as parseYaml } from 'yaml';
+import type { McpServerPermission } from './permissions';
+
+// Servers that can be described in a config file or inline, i.e. all but in-process SDK servers
+export type McpServerDefinition = Exclude<McpServerConfig, { type: 'sdk' }>;
+
+export interface McpServerEntry {
+	config: McpServerDefinition;
+	permission?: McpServerPermission;
+	// Seconds Claude Code waits for the server to start, 0 or undefined for its default
+	startupTimeout?: number;
+}
+
+const PERMISSIONS: McpServerPermission[] = ['whitelist', 'ask', 'blacklist'];
+const ENV_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+const SECRET_FLAG = /token|key|secret|password|passwd|auth|credential/i;
+const MASK = '***';
+
+/**
+ * Error for an invalid server definition, naming the server and field it was found in.
+ */
+function configError(
+	server: string | undefined,
+	field: string | undefined,
+	message: string,
+): Error {
+	const location = [
+		server !== undefined && `server "${server}"`,
+		field !== undefined && `field "${field}"`,
+	]
+		.filter(Boolean)
+		.join(', ');
+	return new Error(location ? `${location}: ${message}` : message);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Replaces ${NAME} and ${NAME:-default} in every string of a parsed value.
+ */
+function interpolate(
+	value: unknown,
+	env: Record<string, string | undefined>,
+	server: string,
+	field: string,
+): unknown {
+	if (typeof value === 'string') {
+		return value.replace(ENV_REFERENCE, (_, name: string, fallback: string | undefined) => {
+			const resolved = env[name] ?? fallback;
+			if (resolved === undefined) {
+				throw configError(server, field, `environment variable ${name} is not set`);
+			}
+			return resolved;
+		});
+	}
+	if (Array.isArray(value)) {
+		return value.map((entry, index) => interpolate(entry, env, server, `${field}[${index}]`));
+	}
+	if (isPlainObject(value)) {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, entry]) => [
+				key,
+				interpolate(entry, env, server, field ? `${field}.${key}` : key),
+			]),
+		);
+	}
+	return value;
+}
+
+/**
+ * Replaces ${NAME} and ${NAME:-default} references in a raw server definition from env.
+ */
+export function interpolateMcpServer(
+	server: string,
+	raw: unknown,
+	env: Record<string, string | undefined>,
+): unknown {
+	return interpolate(raw, env, server, '');
+}
+
+function stringArray(value: unknown, server: string, field: string): string[] | undefined {
+	if (value === undefined || value === null) return undefined;
+	if (!Array.isArray(value)) {
+		throw configError(server, field, 'must be an array of strings');
+	}
+	return value.map((entry, index) => {
+		if (typeof entry === 'number' || typeof entry === 'boolean') return String(entry);
+		if (typeof entry !== 'string') {
+			throw configError(server, `${field}[${index}]`, 'must be a string');
+		}
+		return entry;
+	});
+}
+
+function stringMap(
+	value: unknown,
+	server: string,
+	field: string,
+): Record<string, string> | undefined {
+	if (value === undefined || value === null) return undefined;
+	if (!isPlainObject(value)) {
+		throw configError(server, field, 'must be an object of string values');
+	}
+	return Object.fromEntries(
+		Object.entries(value).map(([key, entry]) => {
+			if (typeof entry === 'number' || typeof entry === 'boolean') return [key, String(entry)];
+			if (typeof entry !== 'string') {
+				throw configError(server, `${field}.${key}`, 'must be a string');
+			}
+			return [key, entry];
+		}),
+	);
+}
+
+/**
+ * Checks one server definition and returns it in the shape the SDK expects. Stdio servers need
+ * a command (with optional args and env); SSE and HTTP servers a URL (with optional headers).
+ */
+export function validateMcpServer(server: string, raw: unknown): McpServerEntry {
+	if (!server.trim()) {
+		throw configError(undefined, 'name', 'server name cannot be empty');
+	}
+	if (!isPlainObject(raw)) {
+		throw configError(server, undefined, 'definition must be an object');
+	}
+
+	let permission: McpServerPermission | undefined;
+	if (raw.permission !== undefined) {
+		if (!PERMISSIONS.includes(raw.permission as McpServerPermission)) {
+			throw configError(server, 'permission', `must be one of ${PERMISSIONS.join(', ')}`);
+		}
+		permission = raw.permission as McpServerPermission;
+	}
+
+	let startupTimeout: number | undefined;
+	if (raw.startupTimeout !== undefined && raw.startupTimeout !== null) {
+		startupTimeout = Number(raw.startupTimeout);
+		if (!Number.isFinite(startupTimeout) || startupTimeout < 0) {
+			throw configError(server, 'startupTimeout', 'must be a number of seconds, 0 or more');
+		}
+	}
+
+	const type = raw.type ?? (raw.url !== undefined && raw.command === undefined ? 'http' : 'stdio');
+	if (type === 'stdio') {
+		if (typeof raw.command !== 'string' || !raw.command.trim()) {
+			throw configError(server, 'command', 'is required for stdio servers');
+		}
+		const args = stringArray(raw.args, server, 'args');
+		const env = stringMap(raw.env, server, 'env');
+		return {
+			config: {
+				type: 'stdio',
+				command: raw.command.trim(),
+				...(args && args.length > 0 && { args }),
+				...(env && Object.keys(env).length > 0 && { env }),
+			},
+			permission,
+			...(startupTimeout && { startupTimeout }),
+		};
+	}
+
+	if (type === 'sse' || type === 'http') {
+		if (typeof raw.url !== 'string' || !raw.url.trim()) {
+			throw configError(server, 'url', `is required for ${type} servers`);
+		}
+		const url = raw.url.trim();
+		let protocol: string;
+		try {
+			protocol = new URL(url).protocol;
+		} catch {
+			throw configError(server, 'url', `"${raw.url}" is not a valid URL`);
+		}
+		if (protocol !== 'http:' && protocol !== 'https:') {
+			throw configError(server, 'url', 'must be an http or https URL');
+		}
+		const headers = stringMap(raw.headers, server, 'headers');
+		return {
+			config: {
+				type,
+				url,
+				...(headers && Object.keys(headers).length > 0 && { headers }),
+			},
+			permission,
+			...(startupTimeout && { startupTimeout }),
+		};
+	}
+
+	throw configError(
+		server,
+		'type',
+		`unsupported transport "${String(type)}", use stdio, sse or http`,
+	);
+}
+
+/**
+ * Parses MCP config file contents: an object with an "mcpServers" map, as in Claude's .mcp.json.
+ * JSON files are parsed as JSON, everything else as YAML (which also accepts JSON). ${NAME} and
+ * ${NAME:-default} references in string values are replaced from env.
+ */
+export function parseMcpConfig(
+	contents: string,
+	fileName: string,
+	env: Record<string, string | undefined> = process.env,
+): Record<string, McpServerEntry> {
+	let parsed: unknown;
+	try {
+		parsed =
+			path.extname(fileName).toLowerCase() === '.json' ? JSON.parse(contents) : parseYaml(contents);
+	} catch (error) {
+		throw configError(undefined, undefined, `could not parse: ${(error as Error).message}`);
+	}
+
+	if (!isPlainObject(parsed) || !isPlainObject(parsed.mcpServers)) {
+		throw configError(undefined, 'mcpServers', 'must be an object of server definitions');
+	}
+
+	return Object.fromEntries(
+		Object.entries(parsed.mcpServers).map(([server, raw]) => [
+			server,
+			validateMcpServer(server, interpolateMcpServer(server, raw, env)),
+		]),
+	);
+}
+
+/**
+ * Reads and validates an MCP config file, interpolating environment variables of the n8n process.
+ */
+export async function loadMcpConfigFile(
+	filePath: string,
+	env: Record<string, string | undefined> = process.env,
+): Promise<Record<string, McpServerEntry>> {
+	let contents: string;
+	try {
+		contents = await fs.readFile(filePath, 'utf8');
+	} catch (error) {
+		throw configError(
+			undefined,
+			undefined,
+			(error as NodeJS.ErrnoException).code === 'ENOENT'
+				? 'file not found'
+				: `could not read: ${(error as Error).message}`,
+		);
+	}
+	return parseMcpConfig(contents, filePath, env);
+}
+
+/**
+ * Describes a server for debug logs without its secrets: env and header values are left out,
+ * the given secret values are masked wherever they appear, and so are arguments that follow a
+ * token, key, secret or password flag.
+ */
+export function describeMcpServer(config: McpServerDefinition, secrets: string[] = []): string {
+	const masked = [
+		...secrets,
+		...Object.values(('env' in config && config.env) || {}),
+		...Object.values(('headers' in config && config.headers) || {}),
+	]
+		.filter((secret) => secret.length >= 4)
+		.sort((a, b) => b.length - a.length);
+	const mask = (value: string) =>
+		masked.reduce((result, secret) => result.split(secret).join(MASK), value);
+
+	if (config.type === 'sse' || config.type === 'http') {
+		const headers = Object.keys(config.headers ?? {});
+		return `${config.type} ${mask(config.url)}${headers.length > 0 ? ` (headers: ${headers.join(', ')})` : ''}`;
+	}
+
+	const args = (config.args ?? []).map((arg, index, all) => {
+		const flag = /^(--?[^=]+)=/.exec(arg);
+		if (flag && SECRET_FLAG.test(flag[1])) return `${flag[1]}=${MASK}`;
+		const previous = index > 0 ? all[index - 1] : '';
+		if (/^--?[^=]+$/.test(previous) && SECRET_FLAG.test(previous)) return MASK;
+		return mask(arg);
+	});
+	const env = Object.keys(config.env ?? {});
+	return `stdio ${[mask(config.command), ...args].join(' ')}${env.length > 0 ? ` (env: ${env.join(', ')})` : ''}`;
+}
@@ -0,0 +1,524 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { IDataObject, IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+import { runExclusive } from './utils';
+
+export type MemoryOperation = 'consolidateMemory' | 'memoryStats';
+
+export const MEMORY_OPERATIONS: MemoryOperation[] = ['consolidateMemory', 'memoryStats'];
+
+export function isMemoryOperation(operation: string): operation is MemoryOperation {
+	return (MEMORY_OPERATIONS as string[]).includes(operation);
+}
+
+export interface MemoryOptions {
+	namespace?: string;
+	storage?: 'staticData' | 'file';
+	storeFilePath?: string;
+	storeRuns?: boolean;
+	injectMemories?: boolean;
+	topK?: number;
+	maxSegments?: number;
+	maxSummaryLength?: number;
+	consolidateTo?: number;
+}
+
+// One remembered run, or several older runs merged by consolidation
+export interface MemorySegment {
+	id: string;
+	type: 'run' | 'consolidated';
+	createdAt: string;
+	prompt: string;
+	summary: string;
+	keyTopics: string[];
+	sessionId?: string;
+	projectPath?: string;
+	files?: string[];
+	costUsd?: number;
+	consolidatedSegmentIds?: string[];
+	[key: string]: any; // Index signature for n8n IDataObject compatibility
+}
+
+export interface CompletedRun {
+	prompt: string;
+	result: string;
+	sessionId?: string;
+	projectPath?: string;
+	files?: string[];
+	costUsd?: number;
+}
+
+interface NamespaceMemory {
+	segments: MemorySegment[];
+	lastUpdated?: string;
+	lastConsolidation?: string;
+	consolidationCount: number;
+}
+
+type MemoryMap = Record<string, NamespaceMemory>;
+
+interface MemoryStore {
+	// Identifies the underlying storage, shared by every store instance that uses it
+	readonly lockKey: unknown;
+	load(): Promise<MemoryMap>;
+	save(namespaces: MemoryMap): Promise<void>;
+}
+
+export const memoryProperty: INodeProperties = {
+	displayName: 'Memory',
+	name: 'memory',
+	type: 'collection',
+	placeholder: 'Add Memory Option',
+	default: {},
+	description:
+		'Long-term memory across runs: summaries of completed runs are stored under a namespace and the most relevant ones are added to the system prompt of new runs',
+	options: [
+		{
+			displayName: 'Consolidate To',
+			name: 'consolidateTo',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 0,
+			description:
+				'Number of memories the Consolidate Memory operation leaves in the namespace, the merged one included. 0 means half of Max Segments.',
+		},
+		{
+			displayName: 'Inject Memories',
+			name: 'injectMemories',
+			type: 'boolean',
+			default: true,
+			description:
+				'Whether to add the memories most relevant to the prompt to the start of the system prompt',
+		},
+		{
+			displayName: 'Max Segments',
+			name: 'maxSegments',
+			type: 'number',
+			typeOptions: {
+				minValue: 2,
+			},
+			default: 50,
+			description:
+				'Number of memories kept per namespace. Beyond it the oldest memories are consolidated into one.',
+		},
+		{
+			displayName: 'Max Summary Length',
+			name: 'maxSummaryLength',
+			type: 'number',
+			typeOptions: {
+				minValue: 100,
+			},
+			default: 1000,
+			description: 'Maximum number of characters of the result kept as the summary of a run',
+		},
+		{
+			displayName: 'Namespace',
+			name: 'namespace',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g., my-repository',
+			description:
+				'Name of the memory to use, such as a project, repository or customer. Memory is off while empty.',
+		},
+		{
+			displayName: 'Storage',
+			name: 'storage',
+			type: 'options',
+			options: [
+				{
+					name: 'Workflow Static Data',
+					value: 'staticData',
+					description:
+						'Store memory with the workflow, shared by its Claude Code nodes. Only persisted for production executions of active workflows.',
+				},
+				{
+					name: 'Local File',
+					value: 'file',
+					description: 'Store memory in a JSON file that several workflows can share',
+				},
+			],
+			default: 'staticData',
+			description: 'Where to keep the memory',
+		},
+		{
+			displayName: 'Store File Path',
+			name: 'storeFilePath',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g., /home/node/.n8n/claude-memory.json',
+			description: 'JSON file used to store memory',
+			displayOptions: {
+				show: {
+					storage: ['file'],
+				},
+			},
+		},
+		{
+			displayName: 'Store Run Summaries',
+			name: 'storeRuns',
+			type: 'boolean',
+			default: true,
+			description: 'Whether to store a summary of each successful run in the memory',
+		},
+		{
+			displayName: 'Top K',
+			name: 'topK',
+			type: 'number',
+			typeOptions: {
+				minValue: 1,
+			},
+			default: 5,
+			description: 'Maximum number of memories added to the system prompt',
+		},
+	],
+};
+
+const STATIC_DATA_KEY = 'claudeCodeMemory';
+const RECENT_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_TOPICS = 10;
+const MAX_CONSOLIDATED_TOPICS = 20;
+const MAX_FILES = 50;
+
+const STOP_WORDS = new Set(
+	(
+		'about above after again all also and any are because been before being below between both but ' +
+		'can could did does doing done down each few for from further had has have having her here hers ' +
+		'him his how into its itself just like make more most must not now off once only other our out ' +
+		'over own please same should some such than that the their them then there these they this those ' +
+		'through too under until use used using very was way were what when where which while who why ' +
+		'will with would you your'
+	).split(' '),
+);
+
+/**
+ * Keeps memory in the global workflow static data, so every Claude Code node of the workflow sees
+ * the same namespaces.
+ */
+class StaticDataMemoryStore implements MemoryStore {
+	constructor(private readonly staticData: IDataObject) {}
+
+	get lockKey(): unknown {
+		return this.staticData;
+	}
+
+	async load(): Promise<MemoryMap> {
+		return { ...((this.staticData[STATIC_DATA_KEY] as MemoryMap | undefined) ?? {}) };
+	}
+
+	async save(namespaces: MemoryMap): Promise<void> {
+		this.staticData[STATIC_DATA_KEY] = namespaces as unknown as IDataObject;
+	}
+}
+
+/**
+ * Keeps memory in a local JSON file, shared by every workflow that points at it.
+ */
+class FileMemoryStore implements MemoryStore {
+	constructor(private readonly filePath: string) {}
+
+	get lockKey(): unknown {
+		return path.resolve(this.filePath);
+	}
+
+	async load(): Promise<MemoryMap> {
+		try {
+			const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+			return (parsed?.namespaces as MemoryMap | undefined) ?? {};
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+			throw new Error(`Could not read memory store ${this.filePath}: ${error.message}`);
+		}
+	}
+
+	async save(namespaces: MemoryMap): Promise<void> {
+		await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+		// Write to a temp file first so a crash never leaves a truncated store behind
+		const tempPath = `${this.filePath}.${process.pid}.tmp`;
+		await fs.writeFile(tempPath, JSON.stringify({ namespaces }, null, 2));
+		await fs.rename(tempPath, this.filePath);
+	}
+}
+
+/**
+ * Lower-case words of three or more characters that are not stop words. File names and
+ * identifiers such as "auth.service.ts" are kept whole and also split into their parts.
+ */
+export function extractTerms(text: string): string[] {
+	return (text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}_./-]*[\p{L}\p{N}]/gu) ?? [])
+		.flatMap((term) => (/[_./-]/.test(term) ? [term, ...term.split(/[_./-]+/)] : [term]))
+		.filter((term) => term.length >= 3 && !STOP_WORDS.has(term));
+}
+
+function mostFrequent(terms: string[], limit: number): string[] {
+	const counts = new Map<string, number>();
+	for (const term of terms) counts.set(term, (counts.get(term) ?? 0) + 1);
+	return [...counts.entries()]
+		.sort((a, b) => b[1] - a[1])
+		.slice(0, limit)
+		.map(([term]) => term);
+}
+
+function truncate(text: string, maxLength: number): string {
+	return text.length <= maxLength ? text : `${text.slice(0, maxLength - 1).trimEnd()}…`;
+}
+
+/**
+ * Scores how relevant a memory is to a prompt: key topics weigh most, then the remembered
+ * prompt, then the summary. Matching memories from the last week get a small bonus.
+ */
+export function calculateRelevanceScore(
+	segment: MemorySegment,
+	terms: string[],
+	now = Date.now(),
+): number {
+	const topics = new Set(segment.keyTopics);
+	const promptTerms = new Set(extractTerms(segment.prompt));
+	const summaryTerms = new Set(extractTerms(segment.summary));
+
+	let score = 0;
+	for (const term of new Set(terms)) {
+		if (topics.has(term)) score += 5;
+		if (promptTerms.has(term)) score += 3;
+		if (summaryTerms.has(term)) score += 2;
+	}
+	if (score > 0 && now - new Date(segment.createdAt).getTime() < RECENT_MS) score += 2;
+	return score;
+}
+
+/**
+ * Formats memories as the block of text put in front of the system prompt.
+ */
+export function formatMemoryContext(namespace: string, segments: MemorySegment[]): string {
+	const entries = segments.map((segment) => {
+		const date = segment.createdAt.slice(0, 10);
+		const lines = [
+			segment.type === 'consolidated'
+				? `- ${date}, summary of ${segment.consolidatedSegmentIds?.length ?? 0} earlier runs:`
+				: `- ${date}, task: ${truncate(segment.prompt.replace(/\s+/g, ' '), 200)}`,
+			...segment.summary.split('\n').map((line) => `  ${line}`),
+		];
+		if (segment.files?.length) lines.push(`  Files changed: ${segment.files.join(', ')}`);
+		return lines.join('\n');
+	});
+	return [
+		`Memory from previous runs ("${namespace}"), most relevant first. Use it as background; the current files and instructions take precedence.`,
+		...entries,
+	].join('\n\n');
+}
+
+/**
+ * Stores, retrieves and consolidates the memory segments of one namespace.
+ */
+export class MemoryManager {
+	constructor(
+		private readonly store: MemoryStore,
+		readonly namespace: string,
+		private readonly options: MemoryOptions = {},
+	) {}
+
+	private get maxSegments(): number {
+		return Math.max(2, this.options.maxSegments ?? 50);
+	}
+
+	/**
+	 * Returns up to topK memories relevant to the prompt, most relevant first.
+	 */
+	async retrieve(prompt: string, topK = this.options.topK ?? 5): Promise<MemorySegment[]> {
+		const memory = (await this.store.load())[this.namespace];
+		if (!memory?.segments.length) return [];
+
+		const terms = extractTerms(prompt);
+		const now = Date.now();
+		return memory.segments
+			.map((segment) => ({ segment, score: calculateRelevanceScore(segment, terms, now) }))
+			.filter(({ score }) => score > 0)
+			.sort((a, b) => b.score - a.score || b.segment.createdAt.localeCompare(a.segment.createdAt))
+			.slice(0, Math.max(1, topK))
+			.map(({ segment }) => segment);
+	}
+
+	/**
+	 * Stores the summary of a completed run, consolidating the oldest memories when the
+	 * namespace holds more than the maximum number of segments.
+	 */
+	async storeRun(run: CompletedRun): Promise<MemorySegment> {
+		const maxSummaryLength = this.options.maxSummaryLength ?? 1000;
+		const now = new Date().toISOString();
+		const segment: MemorySegment = {
+			id: `run-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+			type: 'run',
+			createdAt: now,
+			prompt: truncate(run.prompt.trim(), maxSummaryLength),
+			summary: truncate(run.result.trim(), maxSummaryLength),
+			keyTopics: mostFrequent(extractTerms(`${run.prompt}\n${run.result}`), MAX_TOPICS),
+			...(run.sessionId && { sessionId: run.sessionId }),
+			...(run.projectPath && { projectPath: run.projectPath }),
+			...(run.files?.length && { files: run.files.slice(0, MAX_FILES) }),
+			...(run.costUsd !== undefined && { costUsd: run.costUsd }),
+		};
+
+		await this.update((memory) => {
+			memory.segments.push(segment);
+			memory.lastUpdated = now;
+			if (memory.segments.length > this.maxSegments) {
+				this.consolidateSegments(memory, this.maxSegments);
+			}
+		});
+		return segment;
+	}
+
+	/**
+	 * Merges the oldest memories into one so the namespace holds the consolidation target
+	 * number of segments, half of the maximum unless set.
+	 */
+	async consolidate(): Promise<IDataObject> {
+		const target = this.options.consolidateTo || Math.max(1, Math.floor(this.maxSegments / 2));
+		return await this.update((memory) => {
+			const before = memory.segments.length;
+			const consolidated = before > target ? this.consolidateSegments(memory, target) : undefined;
+			return {
+				namespace: this.namespace,
+				consolidated: !!consolidated,
+				...(consolidated && {
+					consolidatedSegmentId: consolidated.id,
+					segmentsConsolidated: consolidated.consolidatedSegmentIds?.length,
+				}),
+				segmentsBefore: before,
+				segmentsAfter: memory.segments.length,
+				targetSegments: target,
+				maxSegments: this.maxSegments,
+			};
+		});
+	}
+
+	async getStats(): Promise<IDataObject> {
+		const memory = (await this.store.load())[this.namespace];
+		if (!memory) return { namespace: this.namespace, exists: false, totalSegments: 0 };
+
+		const { segments } = memory;
+		const totalCharacters = segments.reduce((total, segment) => total + segment.summary.length, 0);
+		const topicCounts = new Map<string, number>();
+		for (const topic of segments.flatMap((segment) => segment.keyTopics)) {
+			topicCounts.set(topic, (topicCounts.get(topic) ?? 0) + 1);
+		}
+		const describe = (segment: MemorySegment | undefined) =>
+			segment && { id: segment.id, type: segment.type, createdAt: segment.createdAt };
+
+		return {
+			namespace: this.namespace,
+			exists: true,
+			totalSegments: segments.length,
+			consolidatedSegments: segments.filter((segment) => segment.type === 'consolidated').length,
+			totalCharacters,
+			averageSegmentSize: segments.length > 0 ? Math.round(totalCharacters / segments.length) : 0,
+			totalCostUsd: segments.reduce((total, segment) => total + (segment.costUsd ?? 0), 0),
+			topTopics: [...topicCounts.entries()]
+				.sort((a, b) => b[1] - a[1])
+				.slice(0, 10)
+				.map(([topic, count]) => ({ topic, count })),
+			consolidationCount: memory.consolidationCount,
+			lastUpdated: memory.lastUpdated ?? null,
+			lastConsolidation: memory.lastConsolidation ?? null,
+			oldestSegment: describe(segments[0]) ?? null,
+			newestSegment: describe(segments[segments.length - 1]) ?? null,
+			maxSegments: this.maxSegments,
+		};
+	}
+
+	/**
+	 * Replaces the oldest segments with one consolidated segment, keeping the newest
+	 * target - 1 as they are.
+	 */
+	private consolidateSegments(memory: NamespaceMemory, target: number): MemorySegment {
+		const merged = memory.segments.slice(0, memory.segments.length - target + 1);
+		const kept = memory.segments.slice(merged.length);
+		const maxSummaryLength = (this.options.maxSummaryLength ?? 1000) * 2;
+
+		const consolidated: MemorySegment = {
+			id: `consolidated-${Date.now().toString(36)}`,
+			type: 'consolidated',
+			// Keep the segments in chronological order
+			createdAt: merged[merged.length - 1].createdAt,
+			prompt: '',
+			summary: truncate(
+				merged
+					.map((segment) =>
+						segment.type === 'consolidated'
+							? segment.summary
+							: `- ${truncate(segment.prompt.replace(/\s+/g, ' '), 120)}: ${truncate(segment.summary.replace(/\s+/g, ' '), 240)}`,
+					)
+					.join('\n'),
+				maxSummaryLength,
+			),
+			keyTopics: mostFrequent(
+				merged.flatMap((segment) => segment.keyTopics),
+				MAX_CONSOLIDATED_TOPICS,
+			),
+			files: [...new Set(merged.flatMap((segment) => segment.files ?? []))].slice(0, MAX_FILES),
+			costUsd: merged.reduce((total, segment) => total + (segment.costUsd ?? 0), 0),
+			consolidatedSegmentIds: merged.flatMap(
+				(segment) => segment.consolidatedSegmentIds ?? [segment.id],
+			),
+		};
+
+		memory.segments = [consolidated, ...kept];
+		memory.lastConsolidation = new Date().toISOString();
+		memory.consolidationCount += 1;
+		return consolidated;
+	}
+
+	private async update<T>(change: (memory: NamespaceMemory) => T): Promise<T> {
+		return await runExclusive(this.store.lockKey, async () => {
+			const namespaces = await this.store.load();
+			const stored = namespaces[this.namespace];
+			const memory: NamespaceMemory = stored
+				? { ...stored, segments: [...stored.segments] }
+				: { segments: [], consolidationCount: 0 };
+			const result = change(memory);
+			namespaces[this.namespace] = memory;
+			await this.store.save(namespaces);
+			return result;
+		});
+	}
+}
+
+export function createMemoryManager(
+	context: IExecuteFunctions,
+	options: MemoryOptions,
+): MemoryManager {
+	const namespace = options.namespace?.trim();
+	if (!namespace) {
+		throw new Error('Memory namespace is required and cannot be empty');
+	}
+
+	let store: MemoryStore;
+	if (options.storage === 'file') {
+		const filePath = options.storeFilePath?.trim();
+		if (!filePath) {
+			throw new Error('Store file path is required when memory is stored in a file');
+		}
+		store = new FileMemoryStore(filePath);
+	} else {
+		store = new StaticDataMemoryStore(context.getWorkflowStaticData('global'));
+	}
+	return new MemoryManager(store, namespace, options);
+}
+
+/**
+ * Runs the memory statistics or consolidation operation and returns the output item's JSON.
+ */
+export async function executeMemoryOperation(
+	manager: MemoryManager,
+	operation: MemoryOperation,
+): Promise<IDataObject> {
+	switch (operation) {
+		case 'memoryStats':
+			return await manager.getStats();
+		case 'consolidateMemory':
+			return await manager.consolidate();
+		default:
+			throw new Error(`Unsupported memory operation: ${operation}`);
+	}
+}
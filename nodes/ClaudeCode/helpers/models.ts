@@ -0,0 +1,59 @@
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+
+export interface ModelOptions {
+	fallbackModel?: string;
+	maxThinkingTokens?: number;
+}
+
+/**
+ * Returns the model to run: the picked alias, the custom model ID, or whatever an expression
+ * resolved to.
+ */
+export function resolveModel(model: string, customModel: string | undefined): string {
+	const resolved = (model === 'custom' ? (customModel ?? '') : (model ?? '')).trim();
+	if (!resolved) {
+		throw new Error('Model is required and cannot be empty');
+	}
+	return resolved;
+}
+
+/**
+ * Returns the fallback model query option, left out when unset.
+ */
+export function getModelQueryOptions(
+	model: string,
+	options: ModelOptions,
+): { fallbackModel?: string } {
+	const fallbackModel = options.fallbackModel?.trim();
+	if (fallbackModel && fallbackModel === model) {
+		throw new Error(`Fallback model cannot be the same as the model (${model})`);
+	}
+	return fallbackModel ? { fallbackModel } : {};
+}
+
+/**
+ * Returns the environment variables of the model options for the Claude Code process. The
+ * thinking budget is only read from MAX_THINKING_TOKENS; the SDK has no option for it.
+ */
+export function getModelEnvironment(options: ModelOptions): Record<string, string> {
+	const maxThinkingTokens = options.maxThinkingTokens ?? 0;
+	if (!Number.isInteger(maxThinkingTokens) || maxThinkingTokens < 0) {
+		throw new Error('Max thinking tokens must be a whole number of 0 or more');
+	}
+	return maxThinkingTokens > 0 ? { MAX_THINKING_TOKENS: String(maxThinkingTokens) } : {};
+}
+
+/**
+ * Returns the model that actually answered: the model of the last assistant message, which is
+ * the fallback model once Claude Code switched to it, else the model the session started with.
+ */
+export function getModelUsed(messages: SDKMessage[]): string | undefined {
+	for (let index = messages.length - 1; index >= 0; index--) {
+		const message = messages[index];
+		if (message.type === 'assistant' && message.message?.model) return message.message.model;
+	}
+	const init = messages.find(
+		(message) => message.type === 'system' && message.subtype === 'init',
+	) as Extract<SDKMessage, { subtype: 'init' }> | undefined;
+	return init?.model;
+}
@@ -0,0 +1,116 @@
+import {
+	createSdkMcpServer,
+	tool,
+	type McpSdkServerConfigWithInstance,
+} from '@anthropic-ai/claude-code';
+import { NodeConnectionType, type IExecuteFunctions } from 'n8n-workflow';
+
+// Name of the in-process MCP server, so Claude sees the tools as mcp__n8n__<tool name>
+export const N8N_TOOLS_SERVER = 'n8n';
+
+type ToolInputShape = Parameters<typeof tool>[2];
+type ToolResult = Awaited<ReturnType<Parameters<typeof tool>[3]>>;
+
+// A LangChain tool as supplied by n8n tool nodes (HTTP Request Tool, Code Tool, workflow tools, ...)
+export interface ConnectedTool {
+	name: string;
+	description: string;
+	schema?: unknown;
+	invoke(input: unknown): Promise<unknown>;
+}
+
+// Tool nodes like the MCP Client Tool supply a toolkit of several tools
+interface Toolkit {
+	getTools(): ConnectedTool[];
+}
+
+function isToolkit(value: unknown): value is Toolkit {
+	return typeof (value as Toolkit)?.getTools === 'function';
+}
+
+function isConnectedTool(value: unknown): value is ConnectedTool {
+	return (
+		typeof (value as ConnectedTool)?.name === 'string' &&
+		typeof (value as ConnectedTool).invoke === 'function'
+	);
+}
+
+/**
+ * Returns the tools connected to the Tools input of the node, with toolkits expanded.
+ */
+export async function getConnectedTools(
+	context: IExecuteFunctions,
+	itemIndex: number,
+): Promise<ConnectedTool[]> {
+	const connected = await context.getInputConnectionData(NodeConnectionType.AiTool, itemIndex);
+	const entries = Array.isArray(connected) ? connected : connected ? [connected] : [];
+
+	const tools = entries.flatMap((entry: unknown) =>
+		isToolkit(entry) ? entry.getTools() : [entry],
+	);
+	const names = new Set<string>();
+	for (const connectedTool of tools) {
+		if (!isConnectedTool(connectedTool)) {
+			throw new Error('A node connected to the Tools input does not supply a usable tool');
+		}
+		if (names.has(connectedTool.name)) {
+			throw new Error(`More than one connected tool is named "${connectedTool.name}"`);
+		}
+		names.add(connectedTool.name);
+	}
+	return tools as ConnectedTool[];
+}
+
+/**
+ * Returns the input shape of a tool's zod schema. Plain tools without their own schema take a
+ * single "input" string, which LangChain wraps in a transform around an object schema.
+ */
+function getInputShape(connectedTool: ConnectedTool): ToolInputShape {
+	let schema = connectedTool.schema as
+		| { shape?: ToolInputShape; _def?: { schema?: unknown; innerType?: unknown } }
+		| undefined;
+	while (
+		schema &&
+		typeof schema.shape !== 'object' &&
+		(schema._def?.schema || schema._def?.innerType)
+	) {
+		schema = (schema._def.schema ?? schema._def.innerType) as typeof schema;
+	}
+	if (!schema || typeof schema.shape !== 'object') {
+		throw new Error(`Tool "${connectedTool.name}" does not have an object input schema`);
+	}
+	return schema.shape;
+}
+
+function toToolResult(result: unknown): ToolResult {
+	const text = typeof result === 'string' ? result : JSON.stringify(result ?? null, null, 2);
+	return { content: [{ type: 'text', text }] };
+}
+
+/**
+ * Wraps the connected n8n tools in an in-process MCP server. Names, descriptions and input
+ * schemas are passed through unchanged; a failing tool returns its error to Claude instead of
+ * failing the run.
+ */
+export function createN8nToolServer(tools: ConnectedTool[]): McpSdkServerConfigWithInstance {
+	return createSdkMcpServer({
+		name: N8N_TOOLS_SERVER,
+		tools: tools.map((connectedTool) =>
+			tool(
+				connectedTool.name,
+				connectedTool.description || connectedTool.name,
+				getInputShape(connectedTool),
+				async (args) => {
+					try {
+						return toToolResult(await connectedTool.invoke(args));
+					} catch (error) {
+						return {
+							content: [{ type: 'text', text: `Error: ${(error as Error).message}` }],
+							isError: true,
+						};
+					}
+				},
+			),
+		),
+	});
+}
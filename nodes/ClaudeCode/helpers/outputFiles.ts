@@ -0,0 +1,169 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { IBinaryKeyData, IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+import { globToRegExp } from './pathPolicy';
+
+export interface OutputFileOptions {
+	includeTouchedFiles?: boolean;
+	globPatterns?: string;
+	binaryPropertyPrefix?: string;
+	maxFileSize?: number;
+	maxTotalSize?: number;
+}
+
+// A file returned as binary data, or left out with the reason
+export interface OutputFile {
+	path: string;
+	size?: number;
+	binaryProperty?: string;
+	skipped?: string;
+	[key: string]: any; // Index signature for n8n IDataObject compatibility
+}
+
+const MB = 1024 * 1024;
+// Directories never searched by output glob patterns
+const SKIPPED_DIRECTORIES = ['.git', 'node_modules'];
+// Most files a glob pattern may match, so a pattern like ** cannot return a whole repository
+const MAX_GLOB_MATCHES = 100;
+
+export const outputFilesProperty: INodeProperties = {
+	displayName: 'Output Files',
+	name: 'outputFiles',
+	type: 'collection',
+	placeholder: 'Add Output File Option',
+	default: {},
+	description:
+		'Returns files created or changed by Claude as binary data of the output item, ready for nodes that upload or send files',
+	options: [
+		{
+			displayName: 'Binary Property Prefix',
+			name: 'binaryPropertyPrefix',
+			type: 'string',
+			default: 'file_',
+			description: 'Prefix of the binary property names, followed by the number of the file',
+		},
+		{
+			displayName: 'Glob Patterns',
+			name: 'globPatterns',
+			type: 'string',
+			typeOptions: {
+				rows: 2,
+			},
+			default: '',
+			placeholder: 'e.g., reports/*.pdf, **/*.png',
+			description:
+				'Patterns (one per line or comma-separated) of files to return, relative to the project path. .git and node_modules are not searched.',
+		},
+		{
+			displayName: 'Include Touched Files',
+			name: 'includeTouchedFiles',
+			type: 'boolean',
+			default: true,
+			description:
+				'Whether to return the files Claude wrote or edited with Write, Edit, MultiEdit or NotebookEdit',
+		},
+		{
+			displayName: 'Max File Size (MB)',
+			name: 'maxFileSize',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 10,
+			description: 'Larger files are left out and listed as skipped. 0 means no limit.',
+		},
+		{
+			displayName: 'Max Total Size (MB)',
+			name: 'maxTotalSize',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 25,
+			description:
+				'Files that would take the output item over this size are left out and listed as skipped. 0 means no limit.',
+		},
+	],
+};
+
+/**
+ * Whether output files are wanted: adding any output file option turns them on, with touched
+ * files included unless switched off.
+ */
+export function hasOutputFiles(options: OutputFileOptions): boolean {
+	if (Object.keys(options).length === 0) return false;
+	return (options.includeTouchedFiles ?? true) || !!options.globPatterns?.trim();
+}
+
+async function findMatchingFiles(root: string, patterns: string[]): Promise<string[]> {
+	const regExps = patterns.map((pattern) => globToRegExp(pattern.replace(/^\.\//, '')));
+	const matches: string[] = [];
+	const walk = async (directory: string): Promise<void> => {
+		const entries = await fs.readdir(directory, { withFileTypes: true }).catch(() => []);
+		for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+			if (matches.length >= MAX_GLOB_MATCHES) return;
+			const fullPath = path.join(directory, entry.name);
+			if (entry.isDirectory()) {
+				if (!SKIPPED_DIRECTORIES.includes(entry.name)) await walk(fullPath);
+			} else if (entry.isFile()) {
+				const relative = path.relative(root, fullPath).split(path.sep).join('/');
+				if (regExps.some((regExp) => regExp.test(relative))) matches.push(fullPath);
+			}
+		}
+	};
+	await walk(root);
+	return matches;
+}
+
+/**
+ * Reads the touched files and the files matching the glob patterns into binary data. Files that
+ * no longer exist are ignored; files over a size limit are listed as skipped.
+ */
+export async function collectOutputFiles(
+	context: IExecuteFunctions,
+	options: OutputFileOptions,
+	workingDirectory: string | undefined,
+	touchedFiles: string[],
+): Promise<{ binary: IBinaryKeyData; files: OutputFile[] }> {
+	const root = path.resolve(workingDirectory || process.cwd());
+	const patterns = (options.globPatterns ?? '')
+		.split(/[\n,]/)
+		.map((pattern) => pattern.trim())
+		.filter(Boolean);
+	const candidates = [
+		...((options.includeTouchedFiles ?? true)
+			? touchedFiles.map((file) => path.resolve(root, file))
+			: []),
+		...(patterns.length > 0 ? await findMatchingFiles(root, patterns) : []),
+	];
+
+	const maxFileBytes = (options.maxFileSize ?? 10) * MB;
+	const maxTotalBytes = (options.maxTotalSize ?? 25) * MB;
+	const prefix = options.binaryPropertyPrefix ?? 'file_';
+	const binary: IBinaryKeyData = {};
+	const files: OutputFile[] = [];
+	let totalBytes = 0;
+
+	for (const filePath of new Set(candidates)) {
+		const stats = await fs.stat(filePath).catch(() => undefined);
+		if (!stats?.isFile()) continue;
+		if (maxFileBytes > 0 && stats.size > maxFileBytes) {
+			files.push({ path: filePath, size: stats.size, skipped: 'larger than the max file size' });
+			continue;
+		}
+		if (maxTotalBytes > 0 && totalBytes + stats.size > maxTotalBytes) {
+			files.push({ path: filePath, size: stats.size, skipped: 'over the max total size' });
+			continue;
+		}
+
+		totalBytes += stats.size;
+		const binaryProperty = `${prefix}${Object.keys(binary).length}`;
+		binary[binaryProperty] = await context.helpers.prepareBinaryData(
+			await fs.readFile(filePath),
+			filePath,
+		);
+		files.push({ path: filePath, size: stats.size, binaryProperty });
+	}
+
+	return { binary, files };
+}
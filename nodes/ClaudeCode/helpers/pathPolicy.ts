@@ -0,0 +1,358 @@
+import { realpathSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { HookCallbackMatcher, HookJSONOutput } from '@anthropic-ai/claude-code';
+import type { INodeProperties } from 'n8n-workflow';
+
+export interface PathPolicyOptions {
+	restrictToProjectPath?: boolean;
+	allowedPaths?: string;
+	deniedPaths?: string;
+}
+
+// A tool call the path policy refused, listed in the node output
+export interface PathViolation {
+	tool_name: string;
+	path: string;
+	reason: string;
+	timestamp: string;
+	[key: string]: any; // Index signature for n8n IDataObject compatibility
+}
+
+// Input field holding the target path for each checked built-in tool
+const PATH_INPUT_FIELDS: Record<string, string> = {
+	Read: 'file_path',
+	Write: 'file_path',
+	Edit: 'file_path',
+	MultiEdit: 'file_path',
+	NotebookEdit: 'notebook_path',
+	NotebookRead: 'notebook_path',
+	Glob: 'path',
+	Grep: 'path',
+	LS: 'path',
+};
+
+export const pathPolicyProperty: INodeProperties = {
+	displayName: 'Path Policy',
+	name: 'pathPolicy',
+	type: 'collection',
+	placeholder: 'Add Path Rule',
+	default: {},
+	description:
+		'Limits which paths the file tools (Read, Write, Edit, MultiEdit, NotebookEdit, NotebookRead, Glob, Grep, LS) and Bash working directories may use',
+	options: [
+		{
+			displayName: 'Allowed Paths',
+			name: 'allowedPaths',
+			type: 'string',
+			typeOptions: {
+				rows: 3,
+			},
+			default: '',
+			placeholder: 'e.g., /tmp/shared/**',
+			description:
+				'Glob patterns (one per line or comma-separated) of paths that may be used. With "Restrict to Project Path" these are allowed in addition to the project path. Relative patterns are resolved against the project path.',
+		},
+		{
+			displayName: 'Denied Paths',
+			name: 'deniedPaths',
+			type: 'string',
+			typeOptions: {
+				rows: 3,
+			},
+			default: '',
+			placeholder: 'e.g., **/.env, **/secrets/**',
+			description:
+				'Glob patterns (one per line or comma-separated) of paths that may never be used. Takes precedence over allowed paths.',
+		},
+		{
+			displayName: 'Restrict to Project Path',
+			name: 'restrictToProjectPath',
+			type: 'boolean',
+			default: false,
+			description:
+				'Whether file tools may only work inside the project path. For Bash only the directories it changes into (cd, pushd, env -C) are checked, not the paths in its arguments.',
+		},
+	],
+};
+
+function splitPatterns(value: string | undefined): string[] {
+	return (value ?? '')
+		.split(/[\n,]/)
+		.map((pattern) => pattern.trim())
+		.filter((pattern) => pattern.length > 0);
+}
+
+/**
+ * Converts a glob pattern (*, ** and ?) into an anchored regular expression.
+ */
+export function globToRegExp(glob: string): RegExp {
+	let source = '';
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === '*') {
+			if (glob[i + 1] === '*') {
+				const followedBySlash = glob[i + 2] === '/';
+				source += followedBySlash ? '(?:.*/)?' : '.*';
+				i += followedBySlash ? 2 : 1;
+			} else {
+				source += '[^/]*';
+			}
+		} else if (char === '?') {
+			source += '[^/]';
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Resolves symlinks for the part of the path that exists, so a link inside the project
+ * cannot be used to reach files outside it.
+ */
+function resolveRealPath(target: string): string {
+	try {
+		return realpathSync(target);
+	} catch {
+		const parent = path.dirname(target);
+		if (parent === target) return target;
+		return path.join(resolveRealPath(parent), path.basename(target));
+	}
+}
+
+function expandHome(target: string): string {
+	return target.startsWith('~') ? path.join(os.homedir(), target.slice(1)) : target;
+}
+
+function isInside(root: string, target: string): boolean {
+	const relative = path.relative(root, target);
+	return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+// Words that may precede a command without changing what it is
+const COMMAND_PREFIXES = ['exec', 'command', 'builtin', 'nohup', 'time', 'then', 'do', 'else', '!'];
+// Options of env that take a value as the next word
+const ENV_VALUE_OPTIONS = ['-u', '--unset', '-S', '--split-string'];
+// Mentions of a working directory change anywhere in a command, quoted or not
+const DIRECTORY_CHANGE_PATTERN =
+	/(?:^|[^\w./-])(?:cd|pushd|chdir)(?=$|[^\w./-])|(?:^|[^\w./-])env\s[^;&|\n]*?\s(?:-C|--chdir)/g;
+
+function splitWords(segment: string): string[] {
+	return (segment.match(/(?:"[^"]*"|'[^']*'|[^\s"'])+/g) ?? []).map((word) =>
+		word.replace(/"([^"]*)"|'([^']*)'/g, '$1$2'),
+	);
+}
+
+/**
+ * Extracts the directories a Bash command changes into with `cd`, `pushd` or `env -C`, also
+ * inside ( ) and { } groups and behind wrappers like `exec` and `env`. Targets that depend on
+ * variables are returned as-is. A command that mentions a directory change the parser cannot
+ * attribute, such as one in command substitution or `bash -c`, is not verifiable.
+ */
+export function parseBashWorkingDirectories(command: string): {
+	directories: string[];
+	verifiable: boolean;
+} {
+	const directories: string[] = [];
+	for (const segment of command.split(/&&|\|\||;|\||&|\n/)) {
+		const words = splitWords(segment.replace(/^[\s({]+|[\s)}]+$/g, ''));
+
+		// Skip variable assignments and wrappers, noting the directory of env -C
+		let index = 0;
+		while (index < words.length) {
+			const word = words[index];
+			if (COMMAND_PREFIXES.includes(word) || /^[A-Za-z_]\w*=/.test(word)) {
+				index++;
+			} else if (word === 'env') {
+				index++;
+				while (index < words.length && words[index].startsWith('-')) {
+					const option = words[index++];
+					if (option === '--') break;
+					if (option === '-C' || option === '--chdir') {
+						directories.push(words[index++] ?? '');
+					} else if (option.startsWith('--chdir=')) {
+						directories.push(option.slice('--chdir='.length));
+					} else if (/^-C./.test(option)) {
+						directories.push(option.slice(2));
+					} else if (ENV_VALUE_OPTIONS.includes(option)) {
+						index++;
+					}
+				}
+			} else {
+				break;
+			}
+		}
+
+		if (words[index] !== 'cd' && words[index] !== 'pushd') continue;
+		// Options like -L and -P come before the directory, -- ends them
+		let argument = index + 1;
+		while (argument < words.length && /^-./.test(words[argument])) {
+			if (words[argument++] === '--') break;
+		}
+		directories.push(words[argument] ?? '~');
+	}
+
+	const mentions = command.match(DIRECTORY_CHANGE_PATTERN)?.length ?? 0;
+	return {
+		directories,
+		verifiable: mentions <= directories.length && !directories.includes('-'),
+	};
+}
+
+export class PathPolicy {
+	private readonly root: string;
+	private readonly allowed: RegExp[];
+	private readonly denied: RegExp[];
+
+	constructor(
+		private readonly options: PathPolicyOptions,
+		projectPath: string,
+	) {
+		this.root = resolveRealPath(path.resolve(projectPath));
+		const toRegExp = (pattern: string) => {
+			const absolute = path.isAbsolute(pattern) ? pattern : path.join(this.root, pattern);
+			// Resolve symlinks in the literal directory prefix so patterns compare with real paths
+			const globStart = absolute.search(/[*?]/);
+			const literal = globStart === -1 ? absolute : absolute.slice(0, globStart);
+			const literalDir = literal.endsWith('/') ? literal : path.dirname(literal);
+			return globToRegExp(
+				path.join(resolveRealPath(literalDir), absolute.slice(literalDir.length)) +
+					(absolute.endsWith('/') ? '/' : ''),
+			);
+		};
+		this.allowed = splitPatterns(options.allowedPaths).map(toRegExp);
+		this.denied = splitPatterns(options.deniedPaths).map(toRegExp);
+	}
+
+	/**
+	 * Returns the reason a path may not be used, or undefined when it is allowed.
+	 */
+	checkPath(target: string): string | undefined {
+		const expanded = expandHome(target);
+		if (/[$`]/.test(expanded)) {
+			return `Path "${target}" uses shell expansion and cannot be verified`;
+		}
+		const resolved = resolveRealPath(path.resolve(this.root, expanded));
+
+		// A pattern matches the path itself or any directory containing it
+		const matches = (patterns: RegExp[]) => {
+			for (let current = resolved; ; current = path.dirname(current)) {
+				if (patterns.some((pattern) => pattern.test(current))) return true;
+				if (path.dirname(current) === current) return false;
+			}
+		};
+
+		if (matches(this.denied)) {
+			return `Path "${target}" matches a denied path pattern`;
+		}
+		if (this.options.restrictToProjectPath) {
+			if (!isInside(this.root, resolved) && !matches(this.allowed)) {
+				return `Path "${target}" is outside the project path ${this.root}`;
+			}
+		} else if (this.allowed.length > 0 && !matches(this.allowed)) {
+			return `Path "${target}" does not match any allowed path pattern`;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Checks one tool call and returns the offending path and reason, if any.
+	 */
+	checkToolUse(
+		toolName: string,
+		input: Record<string, unknown>,
+	): { path: string; reason: string } | undefined {
+		const targets: string[] = [];
+		if (toolName === 'Bash') {
+			const command = String(input.command ?? '');
+			const { directories, verifiable } = parseBashWorkingDirectories(command);
+			if (!verifiable) {
+				return {
+					path: command,
+					reason: 'Command changes the working directory in a way that cannot be verified',
+				};
+			}
+			targets.push(...directories);
+		} else if (PATH_INPUT_FIELDS[toolName]) {
+			const value = input[PATH_INPUT_FIELDS[toolName]];
+			// Glob, Grep and LS default to the working directory when no path is given
+			const target = typeof value === 'string' && value ? value : this.root;
+			targets.push(target);
+			// Glob patterns and Grep's file glob may lead out of the search path, e.g. ../../etc/*
+			const pattern = toolName === 'Glob' ? input.pattern : toolName === 'Grep' ? input.glob : '';
+			if (typeof pattern === 'string' && pattern) {
+				const staticPrefix = pattern.split(/[*?[{]/)[0];
+				if (/(?:^|[/{,])\.\.(?:$|[/},])/.test(pattern.slice(staticPrefix.length))) {
+					return {
+						path: pattern,
+						reason: `Pattern "${pattern}" uses .. after a wildcard or brace and cannot be verified`,
+					};
+				}
+				if (staticPrefix) {
+					targets.push(path.resolve(this.root, expandHome(target), staticPrefix));
+				}
+			}
+		}
+
+		for (const target of targets) {
+			const reason = this.checkPath(target);
+			if (reason) return { path: target, reason };
+		}
+		return undefined;
+	}
+}
+
+/**
+ * Creates the policy when any rule is configured, otherwise undefined.
+ */
+export function createPathPolicy(
+	options: PathPolicyOptions,
+	projectPath: string,
+): PathPolicy | undefined {
+	if (
+		!options.restrictToProjectPath &&
+		!options.allowedPaths?.trim() &&
+		!options.deniedPaths?.trim()
+	) {
+		return undefined;
+	}
+	return new PathPolicy(options, projectPath || process.cwd());
+}
+
+/**
+ * PreToolUse hook that enforces the policy. Hooks run for every tool call, including tools
+ * that are allowed automatically, which the permission callback never sees.
+ */
+export function createPathPolicyHook(
+	policy: PathPolicy,
+	onViolation: (violation: PathViolation) => void,
+): HookCallbackMatcher {
+	return {
+		hooks: [
+			async (input): Promise<HookJSONOutput> => {
+				if (input.hook_event_name !== 'PreToolUse') return {};
+
+				const violation = policy.checkToolUse(
+					input.tool_name,
+					(input.tool_input ?? {}) as Record<string, unknown>,
+				);
+				if (!violation) return {};
+
+				onViolation({
+					tool_name: input.tool_name,
+					path: violation.path,
+					reason: violation.reason,
+					timestamp: new Date().toISOString(),
+				});
+				return {
+					hookSpecificOutput: {
+						hookEventName: 'PreToolUse',
+						permissionDecision: 'deny',
+						permissionDecisionReason: violation.reason,
+					},
+				};
+			},
+		],
+	};
+}
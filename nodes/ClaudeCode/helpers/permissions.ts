@@ -0,0 +1,144 @@
+import type { CanUseTool, PermissionResult } from '@anthropic-ai/claude-code';
+import type { IExecuteFunctions } from 'n8n-workflow';
+
+export type McpServerPermission = 'whitelist' | 'ask' | 'blacklist';
+
+export interface PermissionOptions {
+	mcpServerPermissions: Record<string, McpServerPermission>;
+	requirePermissions?: boolean;
+	approvalWebhookUrl?: string;
+	approvalTimeout?: number;
+}
+
+// A tool call the permission layer refused, reported in block messages and the output summary
+export interface PermissionDenial {
+	tool_name: string;
+	mcp_server?: string;
+	reason: string;
+	tool_input: Record<string, unknown>;
+	timestamp: string;
+	[key: string]: any; // Index signature for n8n IDataObject compatibility
+}
+
+/**
+ * Splits an MCP tool name of the form mcp__<server>__<tool> into its server and tool parts.
+ */
+export function parseMcpToolName(toolName: string): { server: string; tool: string } | undefined {
+	const match = toolName.match(/^mcp__(.+?)__(.+)$/);
+	return match ? { server: match[1], tool: match[2] } : undefined;
+}
+
+/**
+ * Whether any setting needs the tool-permission callback. Without one the node keeps using
+ * bypassPermissions, exactly as before.
+ */
+export function needsPermissionHandler(options: PermissionOptions): boolean {
+	return (
+		!!options.requirePermissions ||
+		Object.values(options.mcpServerPermissions).some((permission) => permission !== 'whitelist')
+	);
+}
+
+/**
+ * Builds the SDK tool-permission callback. n8n runs unattended, so "ask" decisions go to the
+ * approval webhook when one is configured and are denied otherwise.
+ */
+export function createPermissionHandler(
+	context: IExecuteFunctions,
+	options: PermissionOptions,
+	meta: { executionId: string; itemIndex: number },
+	onDenied: (denial: PermissionDenial) => void,
+): CanUseTool {
+	const deny = (
+		toolName: string,
+		input: Record<string, unknown>,
+		reason: string,
+		server?: string,
+	): PermissionResult => {
+		onDenied({
+			tool_name: toolName,
+			...(server && { mcp_server: server }),
+			reason,
+			tool_input: input,
+			timestamp: new Date().toISOString(),
+		});
+		return { behavior: 'deny', message: reason };
+	};
+
+	const askForApproval = async (
+		toolName: string,
+		input: Record<string, unknown>,
+		server: string | undefined,
+		signal: AbortSignal,
+	): Promise<PermissionResult> => {
+		const url = options.approvalWebhookUrl?.trim();
+		if (!url) {
+			return deny(
+				toolName,
+				input,
+				`Tool "${toolName}" requires approval and no approval webhook is configured`,
+				server,
+			);
+		}
+
+		try {
+			const response = await context.helpers.httpRequest({
+				method: 'POST',
+				url,
+				body: {
+					tool_name: toolName,
+					tool_input: input,
+					...(server && { mcp_server: server }),
+					executionId: meta.executionId,
+					itemIndex: meta.itemIndex,
+				},
+				json: true,
+				timeout: (options.approvalTimeout ?? 60) * 1000,
+				abortSignal: signal,
+			});
+			if (response?.approved === true) {
+				return { behavior: 'allow', updatedInput: input };
+			}
+			return deny(
+				toolName,
+				input,
+				response?.reason || `Tool "${toolName}" was not approved`,
+				server,
+			);
+		} catch (error) {
+			return deny(
+				toolName,
+				input,
+				`Approval request for tool "${toolName}" failed: ${(error as Error).message}`,
+				server,
+			);
+		}
+	};
+
+	return async (toolName, input, { signal }) => {
+		const mcpTool = parseMcpToolName(toolName);
+		if (mcpTool) {
+			const permission = options.mcpServerPermissions[mcpTool.server];
+			if (permission === 'blacklist') {
+				return deny(
+					toolName,
+					input,
+					`Tools from MCP server "${mcpTool.server}" are denied by the node configuration`,
+					mcpTool.server,
+				);
+			}
+			if (permission === 'ask') {
+				return await askForApproval(toolName, input, mcpTool.server, signal);
+			}
+			if (permission === 'whitelist') {
+				return { behavior: 'allow', updatedInput: input };
+			}
+		}
+
+		// Built-in tools and MCP servers without node configuration
+		if (options.requirePermissions) {
+			return await askForApproval(toolName, input, mcpTool?.server, signal);
+		}
+		return { behavior: 'allow', updatedInput: input };
+	};
+}
@@ -0,0 +1,47 @@
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+
+export type SessionOperation = 'query' | 'continue' | 'resume' | 'fork';
+
+export interface SessionQueryOptions {
+	continue?: boolean;
+	resume?: string;
+	forkSession?: boolean;
+}
+
+/**
+ * Maps a node operation to the SDK options that select which conversation the query runs in.
+ * Resume and fork require a session ID; fork starts a new session from the given history.
+ */
+export function getSessionQueryOptions(
+	operation: SessionOperation,
+	sessionId?: string,
+): SessionQueryOptions {
+	if (operation === 'continue') {
+		return { continue: true };
+	}
+
+	if (operation === 'resume' || operation === 'fork') {
+		const id = sessionId?.trim();
+		if (!id) {
+			throw new Error(
+				`Session ID is required for the ${operation === 'resume' ? 'Resume' : 'Fork'} Session operation`,
+			);
+		}
+		return operation === 'fork' ? { resume: id, forkSession: true } : { resume: id };
+	}
+
+	return {};
+}
+
+/**
+ * Returns the session ID the SDK reported for this run, preferring the latest result message
+ * over the system/init message.
+ */
+export function getSessionId(messages: SDKMessage[]): string | null {
+	const latest = [...messages].reverse();
+	const resultMessage = latest.find((m) => m.type === 'result');
+	if (resultMessage?.session_id) return resultMessage.session_id;
+
+	const initMessage = latest.find((m) => m.type === 'system' && m.subtype === 'init');
+	return initMessage?.session_id ?? null;
+}
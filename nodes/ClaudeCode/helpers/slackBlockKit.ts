@@ -0,0 +1,234 @@
+import type { IDataObject } from 'n8n-workflow';
+import type { BlockMessage } from './interfaces';
+import { formatText, formatTextChunks, type TextFormat } from './textFormatting';
+
+// Limits from the Slack Block Kit reference
+export const SLACK_LIMITS = {
+	blocksPerMessage: 50,
+	sectionText: 3000,
+	fieldText: 2000,
+	fieldsPerSection: 10,
+	contextElements: 10,
+	messageText: 40000,
+};
+
+export type SlackMessageState = 'initial' | 'progress' | 'final' | 'error';
+
+export interface SlackOptions {
+	channel?: string;
+	threadId?: string;
+}
+
+export interface SlackMessage {
+	state: SlackMessageState;
+	text: string;
+	blocks: IDataObject[];
+	channel?: string;
+	thread_ts?: string;
+	[key: string]: any; // Index signature for n8n IDataObject compatibility
+}
+
+export interface SlackRunMetrics {
+	duration_ms?: number;
+	total_cost_usd?: number;
+	num_turns?: number;
+}
+
+const TRUNCATION_MARK = '…';
+const RESULT_HEADING = '*Result:*\n';
+
+/**
+ * Shortens text to the given length, keeping the result within the limit including the marker.
+ */
+export function truncateText(text: string, limit: number): string {
+	if (text.length <= limit) return text;
+	return text.slice(0, Math.max(0, limit - TRUNCATION_MARK.length)) + TRUNCATION_MARK;
+}
+
+/**
+ * Escapes the characters Slack treats as control sequences in mrkdwn text.
+ */
+export function escapeMrkdwn(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function mrkdwn(text: string, limit: number): IDataObject {
+	return { type: 'mrkdwn', text: truncateText(text, limit) };
+}
+
+function section(text: string): IDataObject {
+	return { type: 'section', text: mrkdwn(text, SLACK_LIMITS.sectionText) };
+}
+
+function fields(entries: Array<[string, string]>): IDataObject {
+	return {
+		type: 'section',
+		fields: entries
+			.slice(0, SLACK_LIMITS.fieldsPerSection)
+			.map(([label, value]) => mrkdwn(`*${label}:*\n${value}`, SLACK_LIMITS.fieldText)),
+	};
+}
+
+function context(...texts: string[]): IDataObject {
+	return {
+		type: 'context',
+		elements: texts
+			.slice(0, SLACK_LIMITS.contextElements)
+			.map((text) => mrkdwn(text, SLACK_LIMITS.sectionText)),
+	};
+}
+
+/**
+ * Keeps a message within the block limit by dropping blocks from the end and adding a note.
+ */
+export function limitBlocks(
+	blocks: IDataObject[],
+	maxBlocks: number = SLACK_LIMITS.blocksPerMessage,
+): IDataObject[] {
+	if (blocks.length <= maxBlocks) return blocks;
+	const kept = blocks.slice(0, maxBlocks - 1);
+	return [
+		...kept,
+		context(
+			`_${blocks.length - kept.length} more blocks omitted - see the node output for details_`,
+		),
+	];
+}
+
+function formatDuration(durationMs: number | undefined): string {
+	return durationMs ? `${Math.round(durationMs / 1000)}s` : 'Unknown';
+}
+
+/**
+ * Builds ready-to-post Slack messages (text fallback and Block Kit blocks) for each state of
+ * a run. Every message respects the Slack block count and text length limits.
+ */
+export class SlackMessageBuilder {
+	private readonly prompt: string;
+
+	constructor(
+		prompt: string,
+		private readonly options: SlackOptions = {},
+		// Format of the text and thinking block messages passed to progress()
+		private readonly contentFormat: TextFormat = 'markdown',
+	) {
+		this.prompt = escapeMrkdwn(prompt);
+	}
+
+	initial(): SlackMessage {
+		return this.message('initial', 'Starting Claude Code execution...', [
+			section('🚀 *Starting Claude Code execution...*'),
+			fields(this.withThreadId([['Prompt', truncateText(this.prompt, 200)]])),
+			context('⏳ Initializing...'),
+		]);
+	}
+
+	progress(history: BlockMessage[]): SlackMessage {
+		const blocks: IDataObject[] = [
+			section('⚡ *Claude Code is working...*'),
+			fields(this.withThreadId([['Prompt', truncateText(this.prompt, 150)]])),
+		];
+
+		const latest = history[history.length - 1];
+		if (latest) {
+			blocks.push({ type: 'divider' });
+			blocks.push(section(`*Latest Update:*\n${this.describe(latest)}`));
+
+			const toolUses = history.filter((message) => message.type === 'tool_use');
+			if (toolUses.length > 0) {
+				const toolSummary = toolUses.map((message) => `• ${escapeMrkdwn(message.content)}`);
+				blocks.push(section(`*Tools Used:*\n${toolSummary.join('\n')}`));
+			}
+
+			blocks.push(
+				context(
+					`📊 ${history.length} updates${latest.timestamp ? ` • Last: ${latest.timestamp}` : ''}`,
+				),
+			);
+		} else {
+			blocks.push(context('⏳ Waiting for updates...'));
+		}
+
+		return this.message('progress', 'Claude Code is working...', blocks);
+	}
+
+	final(result: string, success: boolean, metrics: SlackRunMetrics = {}): SlackMessage {
+		const heading = success
+			? '✅ *Claude Code execution completed successfully*'
+			: '❌ *Claude Code execution failed*';
+		const blocks: IDataObject[] = [
+			section(heading),
+			fields(this.withThreadId([['Duration', formatDuration(metrics.duration_ms)]])),
+		];
+
+		if (result) {
+			blocks.push({ type: 'divider' });
+			const [first, ...rest] = formatTextChunks(
+				result,
+				'slack',
+				SLACK_LIMITS.sectionText - RESULT_HEADING.length,
+			);
+			blocks.push(section(RESULT_HEADING + first), ...rest.map(section));
+		}
+
+		const metricFields: Array<[string, string]> = [];
+		if (metrics.total_cost_usd)
+			metricFields.push(['Cost', `$${metrics.total_cost_usd.toFixed(4)}`]);
+		if (metrics.num_turns) metricFields.push(['Turns', String(metrics.num_turns)]);
+		const metricsBlock = metricFields.length > 0 ? fields(metricFields) : undefined;
+
+		// Keep the metrics visible when a long result has to be cut short
+		const limited = limitBlocks(
+			blocks,
+			metricsBlock ? SLACK_LIMITS.blocksPerMessage - 1 : SLACK_LIMITS.blocksPerMessage,
+		);
+		return this.message(
+			'final',
+			success
+				? result || 'Claude Code execution completed'
+				: `Claude Code execution failed: ${result}`,
+			metricsBlock ? [...limited, metricsBlock] : limited,
+		);
+	}
+
+	error(error: string): SlackMessage {
+		// Leave room for the code fence so it is never cut open
+		const errorText = truncateText(escapeMrkdwn(error), SLACK_LIMITS.sectionText - 20);
+		return this.message('error', `Claude Code execution failed: ${error}`, [
+			section('❌ *Claude Code execution failed*'),
+			fields(this.withThreadId([['Time', new Date().toISOString()]])),
+			{ type: 'divider' },
+			section(`*Error:*\n\`\`\`\n${errorText}\n\`\`\``),
+		]);
+	}
+
+	private withThreadId(entries: Array<[string, string]>): Array<[string, string]> {
+		return this.options.threadId
+			? [...entries, ['Thread ID', `\`${this.options.threadId}\``]]
+			: entries;
+	}
+
+	private describe(message: BlockMessage): string {
+		if (message.type === 'text') return this.toMrkdwn(message.content);
+		if (message.type === 'thinking') return `💭 ${this.toMrkdwn(message.content)}`;
+		const content = escapeMrkdwn(message.content);
+		if (message.type === 'code') return `\`\`\`\n${truncateText(content, 2000)}\n\`\`\``;
+		return content;
+	}
+
+	private toMrkdwn(content: string): string {
+		if (this.contentFormat === 'slack') return content;
+		if (this.contentFormat === 'markdown') return formatText(content, 'slack');
+		return escapeMrkdwn(content);
+	}
+
+	private message(state: SlackMessageState, text: string, blocks: IDataObject[]): SlackMessage {
+		return {
+			state,
+			text: truncateText(text, SLACK_LIMITS.messageText),
+			blocks: limitBlocks(blocks),
+			...(this.options.channel && { channel: this.options.channel }),
+			...(this.options.threadId && { thread_ts: this.options.threadId }),
+		};
+	}
+}
@@ -0,0 +1,107 @@
+import Ajv, { type ValidateFunction } from 'ajv';
+
+export interface StructuredOutputResult {
+	value?: unknown;
+	errors: string[];
+}
+
+/**
+ * Compiles the user-supplied JSON Schema. Accepts the raw parameter value, which n8n passes
+ * either as a string or as an already parsed object.
+ */
+export function compileSchema(schema: unknown): { schema: object; validate: ValidateFunction } {
+	let parsed = schema;
+	if (typeof schema === 'string') {
+		try {
+			parsed = JSON.parse(schema);
+		} catch (error) {
+			throw new Error(`JSON Schema is not valid JSON: ${(error as Error).message}`);
+		}
+	}
+	if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+		throw new Error('JSON Schema must be a JSON object');
+	}
+
+	const ajv = new Ajv({ allErrors: true, strict: false });
+	try {
+		return { schema: parsed, validate: ajv.compile(parsed) };
+	} catch (error) {
+		throw new Error(`Invalid JSON Schema: ${(error as Error).message}`);
+	}
+}
+
+export function buildSchemaInstruction(prompt: string, schema: object): string {
+	return [
+		prompt,
+		'',
+		'When you are done, reply with a single JSON value that conforms to this JSON Schema.',
+		'Reply with the JSON only: no explanations and no Markdown code fences.',
+		'',
+		JSON.stringify(schema, null, 2),
+	].join('\n');
+}
+
+export function buildRetryPrompt(errors: string[]): string {
+	return [
+		'Your previous reply did not match the required JSON Schema:',
+		...errors.map((error) => `- ${error}`),
+		'',
+		'Reply again with only the corrected JSON value.',
+	].join('\n');
+}
+
+/**
+ * Pulls the JSON value out of a model reply. Models occasionally wrap the answer in a code
+ * fence or add a sentence around it, so fall back to the outermost object or array.
+ */
+function extractJson(text: string): unknown {
+	const trimmed = text.trim();
+	const candidates = [trimmed];
+
+	const fenced = trimmed.match(/```(?:json)?\s*\n([\s\S]*?)\n?```/);
+	if (fenced) candidates.push(fenced[1]);
+
+	for (const [open, close] of [
+		['{', '}'],
+		['[', ']'],
+	]) {
+		const start = trimmed.indexOf(open);
+		const end = trimmed.lastIndexOf(close);
+		if (start !== -1 && end > start) candidates.push(trimmed.slice(start, end + 1));
+	}
+
+	for (const candidate of candidates) {
+		try {
+			return JSON.parse(candidate);
+		} catch {
+			// Try the next candidate
+		}
+	}
+	throw new Error('Reply does not contain valid JSON');
+}
+
+export function parseStructuredResult(
+	text: string | undefined,
+	validate: ValidateFunction,
+): StructuredOutputResult {
+	if (!text || !text.trim()) {
+		return { errors: ['Reply is empty'] };
+	}
+
+	let value: unknown;
+	try {
+		value = extractJson(text);
+	} catch (error) {
+		return { errors: [(error as Error).message] };
+	}
+
+	if (!validate(value)) {
+		return {
+			value,
+			errors: (validate.errors ?? []).map(
+				(error) => `${error.instancePath || '(root)'} ${error.message ?? 'is invalid'}`,
+			),
+		};
+	}
+	return { value, errors: [] };
+}
@@ -0,0 +1,398 @@
+import { lexer, parse, type Token, type Tokens } from 'marked';
+import { markdownToSlack } from 'md-to-slack';
+import type { INodeProperties } from 'n8n-workflow';
+import type { BlockMessage } from './interfaces';
+
+export type TextFormat = 'markdown' | 'slack' | 'plain' | 'html';
+
+export const textFormattingProperties: INodeProperties[] = [
+	{
+		displayName: 'Text Formatting',
+		name: 'textFormatting',
+		type: 'options',
+		options: [
+			{
+				name: 'HTML',
+				value: 'html',
+				description: 'Render Markdown as HTML',
+			},
+			{
+				name: 'Markdown',
+				value: 'markdown',
+				description: 'Keep the Markdown Claude writes',
+			},
+			{
+				name: 'Plain Text',
+				value: 'plain',
+				description: 'Remove all Markdown syntax',
+			},
+			{
+				name: 'Slack Mrkdwn',
+				value: 'slack',
+				description:
+					'Convert to Slack mrkdwn. Headings become bold lines and tables become aligned code blocks.',
+			},
+		],
+		default: 'markdown',
+		description: 'Format of the result text and the content of text and thinking block messages',
+	},
+	{
+		displayName: 'Max Chunk Length',
+		name: 'maxChunkLength',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		default: 0,
+		description:
+			'Splits longer text into chunks of at most this many characters, between paragraphs, list items and code blocks where possible. Chunks are returned in "resultChunks". 0 disables splitting.',
+	},
+];
+
+const FENCE_OPEN = /^\s*(`{3,}|~{3,})/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s/;
+
+interface MarkdownBlock {
+	text: string;
+	separator: string;
+}
+
+/**
+ * Splits Markdown into paragraphs, list items and fenced code blocks, keeping the separator
+ * that preceded each one so the original text can be put back together.
+ */
+function splitBlocks(markdown: string): MarkdownBlock[] {
+	const blocks: MarkdownBlock[] = [];
+	let lines: string[] = [];
+	let separator = '';
+	let fence: string | undefined;
+	let afterBlankLine = false;
+
+	const push = () => {
+		if (lines.length > 0) blocks.push({ text: lines.join('\n'), separator });
+		lines = [];
+	};
+
+	for (const line of markdown.split('\n')) {
+		if (fence) {
+			lines.push(line);
+			if (line.trim().startsWith(fence)) {
+				push();
+				fence = undefined;
+			}
+			continue;
+		}
+		if (!line.trim()) {
+			push();
+			afterBlankLine = true;
+			continue;
+		}
+
+		const fenceMatch = line.match(FENCE_OPEN);
+		if (fenceMatch || LIST_ITEM.test(line)) push();
+		if (lines.length === 0) {
+			separator = blocks.length === 0 ? '' : afterBlankLine ? '\n\n' : '\n';
+			afterBlankLine = false;
+		}
+		lines.push(line);
+		if (fenceMatch) fence = fenceMatch[1];
+	}
+	push();
+	return blocks;
+}
+
+/**
+ * Cuts a single line that is longer than the limit, preferring whitespace.
+ */
+function splitLine(line: string, maxLength: number): string[] {
+	const pieces: string[] = [];
+	let rest = line;
+	while (rest.length > maxLength) {
+		const space = rest.lastIndexOf(' ', maxLength);
+		const end = space > maxLength / 2 ? space : maxLength;
+		pieces.push(rest.slice(0, end));
+		rest = rest.slice(end).replace(/^ /, '');
+	}
+	pieces.push(rest);
+	return pieces;
+}
+
+/**
+ * Packs lines into pieces of at most maxLength characters, wrapping each piece in the given
+ * prefix and suffix lines (the fence lines of a code block).
+ */
+function packLines(lines: string[], maxLength: number, prefix = '', suffix = ''): string[] {
+	const wrap = (body: string[]) => [prefix, ...body, suffix].filter((l) => l !== '').join('\n');
+	const room = Math.max(
+		1,
+		maxLength - (prefix ? prefix.length + 1 : 0) - (suffix ? suffix.length + 1 : 0),
+	);
+	const pieces: string[] = [];
+	let current: string[] = [];
+	let length = 0;
+
+	for (const line of lines.flatMap((l) => splitLine(l, room))) {
+		const added = current.length === 0 ? line.length : line.length + 1;
+		if (current.length > 0 && length + added > room) {
+			pieces.push(wrap(current));
+			current = [];
+			length = 0;
+		}
+		length += current.length === 0 ? line.length : line.length + 1;
+		current.push(line);
+	}
+	if (current.length > 0) pieces.push(wrap(current));
+	return pieces;
+}
+
+/**
+ * Splits a block that does not fit into one chunk. Code blocks are closed at the end of each
+ * piece and reopened at the start of the next one.
+ */
+function splitBlock(block: string, maxLength: number): string[] {
+	const lines = block.split('\n');
+	const fenceMatch = lines[0].match(FENCE_OPEN);
+	if (fenceMatch && lines.length > 1) {
+		const closed = lines[lines.length - 1].trim().startsWith(fenceMatch[1]);
+		return packLines(lines.slice(1, closed ? -1 : undefined), maxLength, lines[0], fenceMatch[1]);
+	}
+	return packLines(lines, maxLength);
+}
+
+/**
+ * Splits Markdown into chunks of at most maxLength characters at safe boundaries: between
+ * paragraphs and list items, and never inside a code block without closing and reopening it.
+ */
+export function splitMarkdown(markdown: string, maxLength: number): string[] {
+	if (!markdown) return [];
+	if (maxLength <= 0 || markdown.length <= maxLength) return [markdown];
+
+	const chunks: string[] = [];
+	let current = '';
+	for (const block of splitBlocks(markdown)) {
+		if (current && current.length + block.separator.length + block.text.length <= maxLength) {
+			current += block.separator + block.text;
+			continue;
+		}
+		if (current) chunks.push(current);
+		current = '';
+
+		if (block.text.length <= maxLength) {
+			current = block.text;
+		} else {
+			chunks.push(...splitBlock(block.text, maxLength));
+		}
+	}
+	if (current) chunks.push(current);
+	return chunks;
+}
+
+function inlineToPlain(tokens: Token[] | undefined): string {
+	return (tokens ?? [])
+		.map((token) => {
+			switch (token.type) {
+				case 'strong':
+				case 'em':
+				case 'del':
+					return inlineToPlain((token as Tokens.Strong).tokens);
+				case 'link': {
+					const link = token as Tokens.Link;
+					const text = inlineToPlain(link.tokens);
+					return text && text !== link.href ? `${text} (${link.href})` : link.href;
+				}
+				case 'image':
+					return (token as Tokens.Image).text;
+				case 'br':
+					return '\n';
+				case 'codespan':
+				case 'escape':
+				case 'text':
+					return 'tokens' in token && token.tokens
+						? inlineToPlain(token.tokens)
+						: (token as Tokens.Text).text;
+				case 'html':
+					return (token as Tokens.HTML).text.replace(/<[^>]*>/g, '');
+				default:
+					return 'raw' in token ? token.raw : '';
+			}
+		})
+		.join('');
+}
+
+function tableToText(table: Tokens.Table): string {
+	const rows = [table.header, ...table.rows].map((row) =>
+		row.map((cell) => inlineToPlain(cell.tokens)),
+	);
+	const widths = table.header.map((_, column) =>
+		Math.max(...rows.map((row) => (row[column] ?? '').length)),
+	);
+	const line = (row: string[]) =>
+		row
+			.map((cell, column) => cell.padEnd(widths[column]))
+			.join(' | ')
+			.trimEnd();
+	return [
+		line(rows[0]),
+		widths.map((width) => '-'.repeat(width)).join('-+-'),
+		...rows.slice(1).map(line),
+	].join('\n');
+}
+
+function blocksToPlain(tokens: Token[], separator = '\n\n'): string {
+	return tokens
+		.map((token) => {
+			switch (token.type) {
+				case 'heading':
+				case 'paragraph':
+					return inlineToPlain((token as Tokens.Paragraph).tokens);
+				case 'code':
+					return (token as Tokens.Code).text;
+				case 'blockquote':
+					return blocksToPlain((token as Tokens.Blockquote).tokens);
+				case 'list': {
+					const list = token as Tokens.List;
+					const start = typeof list.start === 'number' ? list.start : 1;
+					return list.items
+						.map((item, index) => {
+							const marker = list.ordered ? `${start + index}.` : '-';
+							const text = blocksToPlain(item.tokens, '\n').replace(/\n/g, '\n  ');
+							return `${marker} ${text}`;
+						})
+						.join('\n');
+				}
+				case 'table':
+					return tableToText(token as Tokens.Table);
+				case 'text':
+					return 'tokens' in token && token.tokens
+						? inlineToPlain(token.tokens)
+						: (token as Tokens.Text).text;
+				case 'html':
+					return (token as Tokens.HTML).text.replace(/<[^>]*>/g, '').trim();
+				default:
+					return '';
+			}
+		})
+		.filter((text) => text.length > 0)
+		.join(separator);
+}
+
+function listToMrkdwn(list: Tokens.List, depth = 0): string {
+	const start = typeof list.start === 'number' ? list.start : 1;
+	return list.items
+		.map((item, index) => {
+			const marker = list.ordered ? `${start + index}.` : depth > 0 ? '◦' : '•';
+			const text = item.tokens
+				.filter((token) => token.type !== 'list')
+				.map((token) => markdownToSlack(token.raw).trim())
+				.join(' ');
+			const nested = item.tokens
+				.filter((token): token is Tokens.List => token.type === 'list')
+				.map((token) => '\n' + listToMrkdwn(token, depth + 1));
+			return `${'    '.repeat(depth)}${marker} ${text}${nested.join('')}`;
+		})
+		.join('\n');
+}
+
+// Links md-to-slack generates (<url> or <url|text>); any other <...> could be a Slack mention
+const MRKDWN_ESCAPE_PATTERN =
+	/(<(?:https?:\/\/|mailto:)[^<>|\s]+(?:\|[^<>\n]*)?>)|&(?!(?:amp|lt|gt);)|[<>]/g;
+
+/**
+ * Escapes &, < and > the way Slack requires, so text like <!channel> or <@U123> in a result
+ * cannot ping anyone. Generated links and blockquote markers at the start of a line are kept.
+ */
+function escapeMrkdwn(mrkdwn: string): string {
+	return mrkdwn.replace(MRKDWN_ESCAPE_PATTERN, (match, link, offset: number) => {
+		if (link) return link;
+		if (match === '&') return '&amp;';
+		if (match === '<') return '&lt;';
+		return offset === 0 || mrkdwn[offset - 1] === '\n' ? match : '&gt;';
+	});
+}
+
+/**
+ * md-to-slack drops tables, turns headings into plain lines and flattens nested lists, so
+ * those are converted here: headings become bold lines, tables aligned code blocks and
+ * lists bullet lines. Everything else goes through md-to-slack block by block.
+ */
+function markdownToMrkdwn(markdown: string): string {
+	const mrkdwn = lexer(markdown)
+		.map((token) => {
+			switch (token.type) {
+				case 'space':
+					return '';
+				case 'heading':
+					return `*${inlineToPlain((token as Tokens.Heading).tokens)}*`;
+				case 'table':
+					return `\`\`\`\n${tableToText(token as Tokens.Table)}\n\`\`\``;
+				case 'list':
+					return listToMrkdwn(token as Tokens.List);
+				default:
+					return markdownToSlack(token.raw).trim();
+			}
+		})
+		.filter((text) => text.length > 0)
+		.join('\n\n');
+	return escapeMrkdwn(mrkdwn);
+}
+
+/**
+ * Converts Claude's Markdown into the requested format.
+ */
+export function formatText(markdown: string, format: TextFormat): string {
+	if (!markdown || format === 'markdown') return markdown;
+	if (format === 'slack') return markdownToMrkdwn(markdown);
+	if (format === 'html') return (parse(markdown, { async: false }) as string).trim();
+	return blocksToPlain(lexer(markdown));
+}
+
+/**
+ * Converts Markdown and splits the result into chunks of at most maxLength characters.
+ * Splitting happens on the Markdown, so every chunk is valid on its own (code blocks are
+ * closed and reopened); chunks that grow too long in conversion are split further.
+ */
+export function formatTextChunks(
+	markdown: string,
+	format: TextFormat,
+	maxLength: number,
+): string[] {
+	const chunks: string[] = [];
+	const split = (source: string, limit: number) => {
+		for (const part of splitMarkdown(source, limit)) {
+			const formatted = formatText(part, format);
+			if (maxLength <= 0 || formatted.length <= maxLength || part.length <= 1) {
+				chunks.push(formatted);
+			} else {
+				const smaller = Math.floor((part.length * maxLength) / formatted.length);
+				split(part, Math.max(1, Math.min(smaller, part.length - 1)));
+			}
+		}
+	};
+	split(markdown, maxLength);
+	return chunks;
+}
+
+/**
+ * Formats the content of text and thinking block messages. Content longer than maxLength is
+ * emitted as several block messages with chunk_index and chunk_count metadata.
+ */
+export function formatBlockMessage(
+	blockMessage: BlockMessage,
+	format: TextFormat,
+	maxLength: number,
+): BlockMessage[] {
+	if (blockMessage.type !== 'text' && blockMessage.type !== 'thinking') return [blockMessage];
+	if (format === 'markdown' && (maxLength <= 0 || blockMessage.content.length <= maxLength)) {
+		return [blockMessage];
+	}
+
+	const chunks = formatTextChunks(blockMessage.content, format, maxLength);
+	if (chunks.length <= 1) {
+		return [{ ...blockMessage, content: chunks[0] ?? '' }];
+	}
+	return chunks.map((content, index) => ({
+		...blockMessage,
+		content,
+		metadata: { ...blockMessage.metadata, chunk_index: index, chunk_count: chunks.length },
+	}));
+}
@@ -0,0 +1,183 @@
+import type { BlockMessage } from './interfaces';
+
+export interface ThrottleOptions {
+	// Minimum time in milliseconds between two block messages of the same thread, 0 disables throttling
+	minUpdateInterval?: number;
+	coalesceMessages?: boolean;
+	maxBackoff?: number;
+}
+
+interface ThreadState {
+	lastSentAt: number;
+	failures: number;
+}
+
+// Rate limit state per thread, shared by all items and executions of this n8n process
+const threads = new Map<string, ThreadState>();
+const STALE_THREAD_MS = 10 * 60 * 1000;
+
+// Metadata describing a single tool call, listed per call in metadata.tools once messages merge
+const TOOL_METADATA_KEYS = ['tool_use_id', 'tool_name', 'tool_input', 'is_error', 'status'];
+// Metadata that only describes one message and is dropped from a merged update
+const SINGLE_MESSAGE_KEYS = [...TOOL_METADATA_KEYS, 'chunk_index', 'chunk_count'];
+
+function getToolCalls(message: BlockMessage): Array<Record<string, unknown>> {
+	if (Array.isArray(message.metadata?.tools)) return message.metadata.tools;
+	if (message.type !== 'tool_use' && message.type !== 'tool_result') return [];
+	return [
+		{
+			type: message.type,
+			...Object.fromEntries(
+				TOOL_METADATA_KEYS.filter((key) => message.metadata?.[key] !== undefined).map((key) => [
+					key,
+					message.metadata?.[key],
+				]),
+			),
+		},
+	];
+}
+
+function getThreadState(threadKey: string, now: number): ThreadState {
+	for (const [key, state] of threads) {
+		if (now - state.lastSentAt > STALE_THREAD_MS) threads.delete(key);
+	}
+	let state = threads.get(threadKey);
+	if (!state) {
+		state = { lastSentAt: 0, failures: 0 };
+		threads.set(threadKey, state);
+	}
+	return state;
+}
+
+/**
+ * Spaces out the block messages of a thread so consumers like Slack chat.update are not called
+ * faster than they allow. The first message and error messages pass through immediately. Other
+ * messages wait for the interval as one pending update: the latest message, with the content
+ * of everything it replaces and every tool call in metadata.tools. With coalescing off they wait
+ * in a queue instead and are sent one per interval, also after close(). Every failed delivery
+ * doubles the interval of the thread, up to the maximum backoff; a successful one resets it.
+ */
+export class BlockMessageThrottle {
+	private readonly queue: BlockMessage[] = [];
+	private readonly thread: ThreadState;
+	private timer: NodeJS.Timeout | undefined;
+	private sentFirst = false;
+	private closed = false;
+
+	constructor(
+		threadKey: string,
+		private readonly options: ThrottleOptions,
+		private readonly send: (message: BlockMessage) => void,
+		// Merged content is cut to this length, so chunked messages stay within their limit
+		private readonly maxContentLength = 0,
+	) {
+		this.thread = getThreadState(threadKey, Date.now());
+	}
+
+	push(message: BlockMessage): void {
+		if (this.closed || !this.options.minUpdateInterval) {
+			this.send(message);
+			return;
+		}
+		if (!this.sentFirst) {
+			this.sentFirst = true;
+			this.release(message);
+			return;
+		}
+
+		if (this.options.coalesceMessages === false || this.queue.length === 0) {
+			this.queue.push(message);
+		} else {
+			this.queue[0] = this.merge(this.queue[0], message);
+		}
+		if (message.type === 'error') {
+			this.flush();
+		} else {
+			this.schedule();
+		}
+	}
+
+	/**
+	 * Sends what is still waiting: the pending update right away, or with coalescing off the
+	 * queued messages one per interval. Messages pushed afterwards are sent right away.
+	 */
+	async close(): Promise<void> {
+		if (this.closed) return;
+		this.closed = true;
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = undefined;
+		}
+		if (this.options.coalesceMessages !== false) {
+			this.flush();
+			return;
+		}
+		while (this.queue.length > 0) {
+			const delay = this.thread.lastSentAt + this.interval - Date.now();
+			if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay));
+			const next = this.queue.shift();
+			if (next) this.release(next);
+		}
+	}
+
+	/**
+	 * Records the outcome of a live delivery to back off while the consumer is failing.
+	 */
+	recordDelivery(success: boolean): void {
+		this.thread.failures = success ? 0 : this.thread.failures + 1;
+	}
+
+	private get interval(): number {
+		const minInterval = this.options.minUpdateInterval ?? 0;
+		const backoff = minInterval * 2 ** Math.min(this.thread.failures, 10);
+		return Math.min(backoff, Math.max(minInterval, this.options.maxBackoff ?? 30000));
+	}
+
+	private merge(pending: BlockMessage, message: BlockMessage): BlockMessage {
+		const metadata: Record<string, any> = {
+			...message.metadata,
+			coalesced_count: (pending.metadata?.coalesced_count ?? 1) + 1,
+		};
+		for (const key of SINGLE_MESSAGE_KEYS) delete metadata[key];
+		// Every merged tool call keeps its ID and input, so results still link to their tool_use
+		const tools = [...getToolCalls(pending), ...getToolCalls(message)];
+		if (tools.length > 0) metadata.tools = tools;
+		if (message.type === 'tool_result') {
+			metadata.is_error = tools.some((call) => call.is_error === true);
+			metadata.status = metadata.is_error ? 'error' : 'success';
+		}
+
+		let content = `${pending.content}\n\n${message.content}`;
+		if (this.maxContentLength > 0 && content.length > this.maxContentLength) {
+			content = `…${content.slice(content.length - this.maxContentLength + 1)}`;
+		}
+		return { ...message, content, metadata };
+	}
+
+	private schedule(): void {
+		if (this.timer || this.queue.length === 0) return;
+		const delay = Math.max(0, this.thread.lastSentAt + this.interval - Date.now());
+		this.timer = setTimeout(() => {
+			this.timer = undefined;
+			// Another item of the same thread may have sent in the meantime
+			if (Date.now() >= this.thread.lastSentAt + this.interval) {
+				const next = this.queue.shift();
+				if (next) this.release(next);
+			}
+			this.schedule();
+		}, delay);
+	}
+
+	private flush(): void {
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = undefined;
+		}
+		for (const message of this.queue.splice(0)) this.release(message);
+	}
+
+	private release(message: BlockMessage): void {
+		this.thread.lastSentAt = Date.now();
+		this.send(message);
+	}
+}
@@ -0,0 +1,57 @@
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+
+// Built-in tools that change files, with the input field holding the path
+const FILE_TOOLS: Record<string, string> = {
+	Write: 'file_path',
+	Edit: 'file_path',
+	MultiEdit: 'file_path',
+	NotebookEdit: 'notebook_path',
+};
+
+/**
+ * Whether the node runs as a tool of an AI Agent. n8n registers a "<node type>Tool" variant of
+ * every node that is usable as a tool.
+ */
+export function isToolMode(context: IExecuteFunctions): boolean {
+	return context.getNode().type.endsWith('Tool');
+}
+
+/**
+ * Returns the paths of the files Claude wrote or edited during a run, in the order they were
+ * first touched.
+ */
+export function getTouchedFiles(messages: SDKMessage[]): string[] {
+	const files = new Set<string>();
+	for (const message of messages) {
+		if (message.type !== 'assistant') continue;
+		for (const content of message.message.content ?? []) {
+			if (content.type !== 'tool_use' || !(content.name in FILE_TOOLS)) continue;
+			const filePath = (content.input as Record<string, unknown>)?.[FILE_TOOLS[content.name]];
+			if (typeof filePath === 'string' && filePath) files.add(filePath);
+		}
+	}
+	return [...files];
+}
+
+/**
+ * Compact result for an AI Agent: the final answer and a few facts about the run, without the
+ * message history that would fill up the agent's context.
+ */
+export function buildToolResult(run: {
+	result: unknown;
+	success: boolean;
+	changedFiles: string[];
+	totalCostUsd?: number;
+	sessionId?: string | null;
+	error?: string;
+}): IDataObject {
+	return {
+		result: run.result as IDataObject[keyof IDataObject],
+		success: run.success,
+		changedFiles: run.changedFiles,
+		total_cost_usd: run.totalCostUsd ?? null,
+		...(run.sessionId && { session_id: run.sessionId }),
+		...(run.error && { error: run.error }),
+	};
+}
@@ -0,0 +1,414 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+import type { IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+
+export type SpanExport = 'none' | 'file' | 'otlp';
+
+export interface TranscriptOptions {
+	directory?: string;
+	spanExport?: SpanExport;
+	spanFilePath?: string;
+	otlpEndpoint?: string;
+	serviceName?: string;
+}
+
+// Where the transcript and spans of a run went, added to the output
+export interface TranscriptInfo {
+	path?: string;
+	spanCount?: number;
+	errors: string[];
+	[key: string]: any; // Index signature for n8n IDataObject compatibility
+}
+
+interface ReceivedMessage {
+	receivedAt: number;
+	message: SDKMessage;
+}
+
+type AttributeValue = string | number | boolean | undefined | null;
+
+interface Span {
+	traceId: string;
+	spanId: string;
+	parentSpanId?: string;
+	name: string;
+	kind: number;
+	startTimeUnixNano: string;
+	endTimeUnixNano: string;
+	attributes: Array<{ key: string; value: Record<string, unknown> }>;
+	status: { code: number; message?: string };
+}
+
+// OTLP span kinds and status codes
+const SPAN_KIND_INTERNAL = 1;
+const SPAN_KIND_CLIENT = 3;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+export const transcriptProperty: INodeProperties = {
+	displayName: 'Transcript',
+	name: 'transcript',
+	type: 'collection',
+	placeholder: 'Add Transcript Option',
+	default: {},
+	description:
+		'Records every run for debugging: the complete message stream as a JSONL file and, optionally, OpenTelemetry spans of its turns and tool calls',
+	options: [
+		{
+			displayName: 'OTLP Endpoint',
+			name: 'otlpEndpoint',
+			type: 'string',
+			default: 'http://localhost:4318/v1/traces',
+			description:
+				'OTLP/HTTP traces endpoint of a local collector, which receives the spans as JSON',
+			displayOptions: {
+				show: {
+					spanExport: ['otlp'],
+				},
+			},
+		},
+		{
+			displayName: 'Service Name',
+			name: 'serviceName',
+			type: 'string',
+			default: 'n8n-claude-code',
+			description: 'Service name of the exported spans',
+			displayOptions: {
+				show: {
+					spanExport: ['file', 'otlp'],
+				},
+			},
+		},
+		{
+			displayName: 'Span Export',
+			name: 'spanExport',
+			type: 'options',
+			options: [
+				{
+					name: 'None',
+					value: 'none',
+				},
+				{
+					name: 'OTLP Endpoint',
+					value: 'otlp',
+					description: 'Send the spans of each run to an OpenTelemetry collector',
+				},
+				{
+					name: 'Span File',
+					value: 'file',
+					description: 'Append the spans of each run to a file, one OTLP JSON request per line',
+				},
+			],
+			default: 'none',
+			description:
+				'Exports one span per run, per turn and per tool call, with token and cost attributes',
+		},
+		{
+			displayName: 'Span File Path',
+			name: 'spanFilePath',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g., /var/log/n8n/claude-spans.jsonl',
+			description: 'File the spans are appended to',
+			displayOptions: {
+				show: {
+					spanExport: ['file'],
+				},
+			},
+		},
+		{
+			displayName: 'Transcript Directory',
+			name: 'directory',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g., /var/log/n8n/claude-transcripts',
+			description:
+				'Directory for a JSONL file per run with every message and the time it was received, named after the execution ID, item index and session ID. Empty means no transcript file.',
+		},
+	],
+};
+
+/**
+ * Whether any transcript output is configured.
+ */
+export function hasTranscript(options: TranscriptOptions): boolean {
+	return !!options.directory?.trim() || (!!options.spanExport && options.spanExport !== 'none');
+}
+
+function toUnixNano(milliseconds: number): string {
+	return `${Math.round(milliseconds)}000000`;
+}
+
+function toAttributes(
+	attributes: Record<string, AttributeValue>,
+): Array<{ key: string; value: Record<string, unknown> }> {
+	return Object.entries(attributes)
+		.filter(([, value]) => value !== undefined && value !== null)
+		.map(([key, value]) => {
+			if (typeof value === 'boolean') return { key, value: { boolValue: value } };
+			if (typeof value === 'number') {
+				return Number.isInteger(value)
+					? { key, value: { intValue: String(value) } }
+					: { key, value: { doubleValue: value } };
+			}
+			return { key, value: { stringValue: String(value) } };
+		});
+}
+
+/**
+ * Builds the spans of a run from its messages: a root span for the run, a span for every
+ * assistant turn (from the message it answers to its last content block) and a span for every
+ * tool call (from the tool_use block to its tool_result).
+ */
+export function buildSpans(
+	received: ReceivedMessage[],
+	run: { startedAt: number; endedAt: number; executionId: string; itemIndex: number },
+): Span[] {
+	const traceId = randomBytes(16).toString('hex');
+	const rootId = randomBytes(8).toString('hex');
+	const init = received.find(({ message }) => message.type === 'system') as
+		| { message: any }
+		| undefined;
+	const result = [...received].reverse().find(({ message }) => message.type === 'result') as
+		| { message: any }
+		| undefined;
+	const spans: Span[] = [];
+
+	// Assistant turns, grouped by API message ID
+	const turns = new Map<string, { start: number; end: number; message: any }>();
+	const toolCalls = new Map<string, { start: number; name: string }>();
+	let previousAt = run.startedAt;
+	for (const { receivedAt, message } of received) {
+		if (message.type === 'assistant') {
+			const apiMessage = (message as any).message;
+			const turnKey = apiMessage?.id ?? `${receivedAt}`;
+			const turn = turns.get(turnKey);
+			if (turn) {
+				turn.end = receivedAt;
+				turn.message = apiMessage;
+			} else {
+				turns.set(turnKey, { start: previousAt, end: receivedAt, message: apiMessage });
+			}
+			for (const content of apiMessage?.content ?? []) {
+				if (content.type === 'tool_use') {
+					toolCalls.set(content.id, { start: receivedAt, name: content.name });
+				}
+			}
+		} else if (message.type === 'user') {
+			const contents = (message as any).message?.content;
+			for (const content of Array.isArray(contents) ? contents : []) {
+				const call = content?.type === 'tool_result' && toolCalls.get(content.tool_use_id);
+				if (!call) continue;
+				spans.push({
+					traceId,
+					spanId: randomBytes(8).toString('hex'),
+					parentSpanId: rootId,
+					name: `tool ${call.name}`,
+					kind: SPAN_KIND_INTERNAL,
+					startTimeUnixNano: toUnixNano(call.start),
+					endTimeUnixNano: toUnixNano(receivedAt),
+					attributes: toAttributes({
+						'gen_ai.tool.name': call.name,
+						'gen_ai.tool.call.id': content.tool_use_id,
+						'claude_code.tool.is_error': !!content.is_error,
+					}),
+					status: content.is_error ? { code: STATUS_ERROR } : { code: STATUS_OK },
+				});
+				toolCalls.delete(content.tool_use_id);
+			}
+		}
+		previousAt = receivedAt;
+	}
+
+	let turnNumber = 0;
+	for (const [turnKey, turn] of turns) {
+		turnNumber++;
+		spans.push({
+			traceId,
+			spanId: randomBytes(8).toString('hex'),
+			parentSpanId: rootId,
+			name: `turn ${turnNumber}`,
+			kind: SPAN_KIND_CLIENT,
+			startTimeUnixNano: toUnixNano(turn.start),
+			endTimeUnixNano: toUnixNano(turn.end),
+			attributes: toAttributes({
+				'gen_ai.system': 'anthropic',
+				'gen_ai.response.id': turnKey,
+				'gen_ai.response.model': turn.message?.model,
+				'gen_ai.response.finish_reasons': turn.message?.stop_reason,
+				'gen_ai.usage.input_tokens': turn.message?.usage?.input_tokens,
+				'gen_ai.usage.output_tokens': turn.message?.usage?.output_tokens,
+				'gen_ai.usage.cache_read_input_tokens': turn.message?.usage?.cache_read_input_tokens,
+				'gen_ai.usage.cache_creation_input_tokens':
+					turn.message?.usage?.cache_creation_input_tokens,
+			}),
+			status: { code: STATUS_OK },
+		});
+	}
+
+	// Tool calls that never got a result end with the run
+	for (const [toolUseId, call] of toolCalls) {
+		spans.push({
+			traceId,
+			spanId: randomBytes(8).toString('hex'),
+			parentSpanId: rootId,
+			name: `tool ${call.name}`,
+			kind: SPAN_KIND_INTERNAL,
+			startTimeUnixNano: toUnixNano(call.start),
+			endTimeUnixNano: toUnixNano(run.endedAt),
+			attributes: toAttributes({ 'gen_ai.tool.name': call.name, 'gen_ai.tool.call.id': toolUseId }),
+			status: { code: STATUS_ERROR, message: 'No tool result' },
+		});
+	}
+
+	const success = result?.message.subtype === 'success';
+	spans.unshift({
+		traceId,
+		spanId: rootId,
+		name: 'claude_code.run',
+		kind: SPAN_KIND_INTERNAL,
+		startTimeUnixNano: toUnixNano(run.startedAt),
+		endTimeUnixNano: toUnixNano(run.endedAt),
+		attributes: toAttributes({
+			'n8n.execution_id': run.executionId,
+			'n8n.item_index': run.itemIndex,
+			'claude_code.session_id': init?.message.session_id ?? result?.message.session_id,
+			'gen_ai.request.model': init?.message.model,
+			'claude_code.num_turns': result?.message.num_turns,
+			'claude_code.total_cost_usd': result?.message.total_cost_usd,
+			'gen_ai.usage.input_tokens': result?.message.usage?.input_tokens,
+			'gen_ai.usage.output_tokens': result?.message.usage?.output_tokens,
+			'claude_code.success': success,
+		}),
+		status: success
+			? { code: STATUS_OK }
+			: { code: STATUS_ERROR, message: result?.message.subtype ?? 'No result' },
+	});
+	return spans;
+}
+
+/**
+ * Records the messages of one run. The transcript file is written as messages arrive, under a
+ * temporary name that gets the session ID when the run closes; spans are exported at close.
+ */
+export class RunTranscript {
+	private readonly received: ReceivedMessage[] = [];
+	private readonly startedAt = Date.now();
+	private readonly pendingPath: string | undefined;
+	private writeChain: Promise<void> = Promise.resolve();
+	private readonly errors: string[] = [];
+	private info: Promise<TranscriptInfo> | undefined;
+
+	constructor(
+		private readonly context: IExecuteFunctions,
+		private readonly options: TranscriptOptions,
+		private readonly meta: { executionId: string; itemIndex: number },
+	) {
+		const directory = options.directory?.trim();
+		if (directory) {
+			this.pendingPath = path.join(
+				directory,
+				`${this.fileNamePrefix()}-${randomBytes(4).toString('hex')}.jsonl.partial`,
+			);
+			this.write(async () => {
+				await fs.mkdir(directory, { recursive: true });
+				await fs.writeFile(this.pendingPath as string, '');
+			});
+		}
+	}
+
+	record(message: SDKMessage): void {
+		const receivedAt = Date.now();
+		this.received.push({ receivedAt, message });
+		if (this.pendingPath) {
+			const line = JSON.stringify({ received_at: new Date(receivedAt).toISOString(), message });
+			this.write(() => fs.appendFile(this.pendingPath as string, line + '\n'));
+		}
+	}
+
+	/**
+	 * Finishes the transcript file and exports the spans. Later calls return the first outcome.
+	 * Never throws; problems are listed in the returned errors.
+	 */
+	async close(sessionId: string | null | undefined): Promise<TranscriptInfo> {
+		this.info ??= this.finish(sessionId);
+		return await this.info;
+	}
+
+	private async finish(sessionId: string | null | undefined): Promise<TranscriptInfo> {
+		const info: TranscriptInfo = { errors: this.errors };
+
+		if (this.pendingPath) {
+			await this.writeChain;
+			const finalPath = path.join(
+				path.dirname(this.pendingPath),
+				`${this.fileNamePrefix()}-${(sessionId || 'no-session').replace(/[^\w.-]+/g, '-')}.jsonl`,
+			);
+			try {
+				await fs.rename(this.pendingPath, finalPath);
+				info.path = finalPath;
+			} catch (error) {
+				this.errors.push(`Could not save the transcript: ${(error as Error).message}`);
+			}
+		}
+
+		const spanExport = this.options.spanExport ?? 'none';
+		if (spanExport !== 'none') {
+			const spans = buildSpans(this.received, {
+				startedAt: this.startedAt,
+				endedAt: Date.now(),
+				...this.meta,
+			});
+			const request = {
+				resourceSpans: [
+					{
+						resource: {
+							attributes: toAttributes({
+								'service.name': this.options.serviceName || 'n8n-claude-code',
+							}),
+						},
+						scopeSpans: [{ scope: { name: 'n8n-nodes-claudecode-streaming' }, spans }],
+					},
+				],
+			};
+			try {
+				if (spanExport === 'file') {
+					const spanFilePath = this.options.spanFilePath?.trim();
+					if (!spanFilePath) throw new Error('no span file path is set');
+					await fs.mkdir(path.dirname(spanFilePath), { recursive: true });
+					await fs.appendFile(spanFilePath, JSON.stringify(request) + '\n');
+				} else {
+					await this.context.helpers.httpRequest({
+						method: 'POST',
+						url: this.options.otlpEndpoint || 'http://localhost:4318/v1/traces',
+						body: request,
+						json: true,
+					});
+				}
+				info.spanCount = spans.length;
+			} catch (error) {
+				this.errors.push(`Could not export spans: ${(error as Error).message}`);
+			}
+		}
+
+		return info;
+	}
+
+	private fileNamePrefix(): string {
+		return `${this.meta.executionId}-${this.meta.itemIndex}`.replace(/[^\w.-]+/g, '-');
+	}
+
+	// Writes run one after another so transcript lines keep their order
+	private write(operation: () => Promise<unknown>): void {
+		this.writeChain = this.writeChain
+			.then(async () => {
+				await operation();
+			})
+			.catch((error) => {
+				const message = `Could not write the transcript: ${(error as Error).message}`;
+				if (!this.errors.includes(message)) this.errors.push(message);
+			});
+	}
+}
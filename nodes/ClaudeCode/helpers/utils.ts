@@ -0,0 +1,31 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+
+/**
+ * Returns the current execution ID, or "manual" when n8n has not assigned one yet
+ * (manual executions in the editor may not have an ID).
+ */
+export function getExecutionIdSafe(context: IExecuteFunctions): string {
+	try {
+		return context.getExecutionId() ?? 'manual';
+	} catch {
+		return 'manual';
+	}
+}
+
+// Latest pending task per key, see runExclusive()
+const pendingTasks = new Map<unknown, Promise<unknown>>();
+
+/**
+ * Runs a task after the tasks already started for the same key have settled. Used for the
+ * load-modify-save updates of stores, so items running at the same time never overwrite each
+ * other's changes.
+ */
+export async function runExclusive<T>(key: unknown, task: () => Promise<T>): Promise<T> {
+	const current = (pendingTasks.get(key) ?? Promise.resolve()).catch(() => undefined).then(task);
+	pendingTasks.set(key, current);
+	try {
+		return await current;
+	} finally {
+		if (pendingTasks.get(key) === current) pendingTasks.delete(key);
+	}
+}
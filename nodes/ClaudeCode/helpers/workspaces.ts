@@ -0,0 +1,241 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import type { INodeProperties } from 'n8n-workflow';
+
+const execFileAsync = promisify(execFile);
+
+export type WorkspaceIsolation = 'none' | 'auto' | 'worktree' | 'copy';
+export type WorkspaceRetention = 'delete' | 'keepOnFailure' | 'keep';
+
+export interface WorkspaceOptions {
+	isolation?: WorkspaceIsolation;
+	ref?: string;
+	retention?: WorkspaceRetention;
+	baseDirectory?: string;
+}
+
+interface WorkspaceDetails {
+	path: string;
+	type: 'worktree' | 'copy';
+	sourcePath: string;
+	ref?: string;
+	commit?: string;
+}
+
+// Workspace details added to the output of each item
+export interface WorkspaceInfo extends WorkspaceDetails {
+	kept: boolean;
+	[key: string]: any; // Index signature for n8n IDataObject compatibility
+}
+
+export const workspaceProperty: INodeProperties = {
+	displayName: 'Workspace Isolation',
+	name: 'workspace',
+	type: 'collection',
+	placeholder: 'Add Workspace Option',
+	default: {},
+	description:
+		"Runs each item in its own fresh workspace created from the project path, so items cannot change each other's files",
+	options: [
+		{
+			displayName: 'Isolation',
+			name: 'isolation',
+			type: 'options',
+			options: [
+				{
+					name: 'Auto',
+					value: 'auto',
+					description:
+						'Git worktree when the project path is in a git repository, temporary copy otherwise',
+				},
+				{
+					name: 'Git Worktree',
+					value: 'worktree',
+					description: 'A detached git worktree checked out at the ref',
+				},
+				{
+					name: 'Off',
+					value: 'none',
+					description: 'All items run in the project path itself',
+				},
+				{
+					name: 'Temporary Copy',
+					value: 'copy',
+					description: 'A copy of the project path, including uncommitted files',
+				},
+			],
+			default: 'auto',
+			description: 'How to create the workspace of each item',
+		},
+		{
+			displayName: 'Ref',
+			name: 'ref',
+			type: 'string',
+			default: 'HEAD',
+			placeholder: 'e.g., main',
+			description:
+				'Branch, tag or commit the git worktree is created from. Uncommitted changes in the project path are not included.',
+			displayOptions: {
+				show: {
+					isolation: ['auto', 'worktree'],
+				},
+			},
+		},
+		{
+			displayName: 'Retention',
+			name: 'retention',
+			type: 'options',
+			options: [
+				{
+					name: 'Delete',
+					value: 'delete',
+					description: 'Remove the workspace when the item is done',
+				},
+				{
+					name: 'Keep',
+					value: 'keep',
+					description: 'Leave every workspace in place',
+				},
+				{
+					name: 'Keep on Failure',
+					value: 'keepOnFailure',
+					description: 'Remove the workspace unless the run failed, so failures can be inspected',
+				},
+			],
+			default: 'delete',
+			description: 'What happens to the workspace after the item is done',
+		},
+		{
+			displayName: 'Workspace Directory',
+			name: 'baseDirectory',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g., /tmp/claude-workspaces',
+			description:
+				'Directory the workspaces are created in. Defaults to the system temporary directory.',
+		},
+	],
+};
+
+async function git(cwd: string, args: string[]): Promise<string> {
+	const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 16 * 1024 * 1024 });
+	return stdout.trim();
+}
+
+async function findRepository(sourcePath: string): Promise<string | undefined> {
+	try {
+		return await git(sourcePath, ['rev-parse', '--show-toplevel']);
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * A fresh working directory for one item: a detached git worktree or a temporary copy of the
+ * project path. Call finish() when the item is done to apply the retention option.
+ */
+export class Workspace {
+	private constructor(
+		private readonly info: WorkspaceDetails,
+		private readonly root: string,
+		private readonly repository: string | undefined,
+		private readonly retention: WorkspaceRetention,
+	) {}
+
+	get path(): string {
+		return this.info.path;
+	}
+
+	/**
+	 * Creates the workspace, or returns undefined when isolation is off.
+	 */
+	static async create(
+		sourcePath: string,
+		options: WorkspaceOptions,
+		label: string,
+	): Promise<Workspace | undefined> {
+		const isolation = options.isolation ?? 'none';
+		if (isolation === 'none') return undefined;
+
+		const source = path.resolve(sourcePath || process.cwd());
+		const repository = isolation === 'copy' ? undefined : await findRepository(source);
+		if (isolation === 'worktree' && !repository) {
+			throw new Error(
+				`Git worktree isolation needs a git repository, but ${source} is not inside one`,
+			);
+		}
+
+		const baseDirectory = options.baseDirectory?.trim() || os.tmpdir();
+		await fs.mkdir(baseDirectory, { recursive: true });
+		const root = await fs.mkdtemp(
+			path.join(baseDirectory, `claude-code-${label.replace(/[^\w.-]+/g, '-')}-`),
+		);
+		const retention = options.retention ?? 'delete';
+
+		try {
+			if (repository) {
+				const ref = options.ref?.trim() || 'HEAD';
+				await git(repository, ['worktree', 'add', '--detach', root, ref]);
+				// Run in the same subdirectory of the repository as the project path
+				const workspacePath = path.join(root, path.relative(repository, source));
+				return new Workspace(
+					{
+						path: workspacePath,
+						type: 'worktree',
+						sourcePath: source,
+						ref,
+						commit: await git(root, ['rev-parse', 'HEAD']),
+					},
+					root,
+					repository,
+					retention,
+				);
+			}
+
+			await fs.cp(source, root, { recursive: true });
+			return new Workspace(
+				{ path: root, type: 'copy', sourcePath: source },
+				root,
+				undefined,
+				retention,
+			);
+		} catch (error) {
+			await fs.rm(root, { recursive: true, force: true });
+			throw error;
+		}
+	}
+
+	/**
+	 * Whether the workspace stays in place for a run with the given outcome.
+	 */
+	isKept(success: boolean): boolean {
+		return this.retention === 'keep' || (this.retention === 'keepOnFailure' && !success);
+	}
+
+	getInfo(success: boolean): WorkspaceInfo {
+		return { ...this.info, kept: this.isKept(success) };
+	}
+
+	/**
+	 * Removes the workspace unless the retention option keeps it. Never throws; a workspace that
+	 * cannot be removed is left behind.
+	 */
+	async finish(success: boolean): Promise<void> {
+		if (this.isKept(success)) return;
+		if (this.repository) {
+			try {
+				await git(this.repository, ['worktree', 'remove', '--force', this.root]);
+				return;
+			} catch {
+				// Fall through: remove the directory and let git forget the worktree
+			}
+		}
+		await fs.rm(this.root, { recursive: true, force: true }).catch(() => undefined);
+		if (this.repository) {
+			await git(this.repository, ['worktree', 'prune']).catch(() => undefined);
+		}
+	}
+}
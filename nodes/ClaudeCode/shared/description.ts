@@ -0,0 +1,1067 @@
+import type { INodeProperties, INodePropertyOptions } from 'n8n-workflow';
+import { pathPolicyProperty } from '../helpers/pathPolicy';
+import { gitChangesProperty } from '../helpers/gitChanges';
+import { workspaceProperty } from '../helpers/workspaces';
+import { attachmentsProperty } from '../helpers/attachments';
+import { outputFilesProperty } from '../helpers/outputFiles';
+import { transcriptProperty } from '../helpers/transcript';
+import { MEMORY_OPERATIONS, memoryProperty } from '../helpers/memory';
+import { itemExecutionProperty } from '../helpers/concurrency';
+import { CONVERSATION_MANAGEMENT_OPERATIONS } from '../helpers/conversations';
+import { textFormattingProperties } from '../helpers/textFormatting';
+
+// Parameters that only apply when the operation actually runs a query
+const hideForManagementOperations = {
+	hide: {
+		operation: [...CONVERSATION_MANAGEMENT_OPERATIONS, ...MEMORY_OPERATIONS],
+	},
+};
+
+// Parameters of version 1, kept as they are so existing workflows behave the same
+const propertiesV1: INodeProperties[] = [
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		options: [
+			{
+				name: 'Consolidate Memory',
+				value: 'consolidateMemory',
+				description: 'Merge the oldest memories of a namespace into one',
+				action: 'Consolidate memory',
+			},
+			{
+				name: 'Continue Last Conversation',
+				value: 'continue',
+				description: 'Continue the most recent conversation in the project path',
+				action: 'Continue the most recent conversation',
+			},
+			{
+				name: 'Delete Conversation',
+				value: 'deleteConversation',
+				description: 'Remove a stored conversation by its key',
+				action: 'Delete a conversation',
+			},
+			{
+				name: 'Expire Conversations',
+				value: 'expireConversations',
+				description: 'Remove all stored conversations whose TTL has passed',
+				action: 'Expire conversations',
+			},
+			{
+				name: 'Fork Session',
+				value: 'fork',
+				description: 'Start a new session that branches off the history of a given session',
+				action: 'Fork a session',
+			},
+			{
+				name: 'Get Conversation',
+				value: 'getConversation',
+				description: 'Get the stored session for a conversation key',
+				action: 'Get a conversation',
+			},
+			{
+				name: 'Get Memory Stats',
+				value: 'memoryStats',
+				description: 'Get statistics about the memory of a namespace',
+				action: 'Get memory statistics',
+			},
+			{
+				name: 'List Conversations',
+				value: 'listConversations',
+				description: 'List all stored conversations',
+				action: 'List conversations',
+			},
+			{
+				name: 'New Conversation',
+				value: 'query',
+				description: 'Start a new conversation with Claude Code',
+				action: 'Start a new conversation',
+			},
+			{
+				name: 'Resume Session',
+				value: 'resume',
+				description: 'Resume a specific session by its ID',
+				action: 'Resume a session',
+			},
+			{
+				name: 'Send to Conversation',
+				value: 'conversation',
+				description:
+					'Send the prompt in the conversation for a key, starting a new session on the first message and resuming it afterwards',
+				action: 'Send a message to a conversation',
+			},
+		],
+		default: 'continue',
+	},
+	{
+		displayName: 'Conversation Key',
+		name: 'conversationKey',
+		type: 'string',
+		default: '',
+		required: true,
+		description:
+			'Key that identifies the conversation, such as a Slack thread_ts, a ticket number or a customer ID',
+		placeholder: 'e.g., 1712345678.123456',
+		hint: 'Use expressions like {{$json.thread_ts}} to keep one conversation per Slack thread',
+		displayOptions: {
+			show: {
+				operation: ['conversation', 'getConversation', 'deleteConversation'],
+			},
+		},
+	},
+	{
+		displayName: 'Conversation Store',
+		name: 'conversationStore',
+		type: 'collection',
+		placeholder: 'Add Store Option',
+		default: {},
+		displayOptions: {
+			show: {
+				operation: ['conversation', ...CONVERSATION_MANAGEMENT_OPERATIONS],
+			},
+		},
+		options: [
+			{
+				displayName: 'Storage',
+				name: 'storage',
+				type: 'options',
+				options: [
+					{
+						name: 'Workflow Static Data',
+						value: 'staticData',
+						description:
+							'Store conversations with this node. Only persisted for production executions of active workflows.',
+					},
+					{
+						name: 'Local File',
+						value: 'file',
+						description: 'Store conversations in a JSON file that several workflows can share',
+					},
+				],
+				default: 'staticData',
+				description: 'Where to keep the mapping from conversation keys to Claude sessions',
+			},
+			{
+				displayName: 'Store File Path',
+				name: 'storeFilePath',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g., /home/node/.n8n/claude-conversations.json',
+				description: 'JSON file used to store conversations',
+				displayOptions: {
+					show: {
+						storage: ['file'],
+					},
+				},
+			},
+			{
+				displayName: 'TTL',
+				name: 'ttl',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 0,
+				description:
+					'Minutes of inactivity after which a conversation expires and the next message starts a new session. Use 0 to never expire.',
+			},
+		],
+	},
+	{
+		displayName: 'Session ID',
+		name: 'sessionId',
+		type: 'string',
+		default: '',
+		required: true,
+		description:
+			'ID of the session to resume or fork, as returned in the session_id field of a previous run',
+		placeholder: 'e.g., 3f2b9c1e-6a4d-4c8e-9f1a-2b7d5e8c0a14',
+		hint: 'Use expressions like {{$json.session_id}} to pick up the session from a previous run',
+		displayOptions: {
+			show: {
+				operation: ['resume', 'fork'],
+			},
+		},
+	},
+	{
+		displayName: 'Prompt',
+		name: 'prompt',
+		type: 'string',
+		typeOptions: {
+			rows: 4,
+		},
+		default: '',
+		description: 'The prompt or instruction to send to Claude Code',
+		required: true,
+		placeholder: 'e.g., "Create a Python function to parse CSV files"',
+		hint: 'Use expressions like {{$json.prompt}} to use data from previous nodes',
+		displayOptions: hideForManagementOperations,
+	},
+	{
+		displayName: 'Model',
+		name: 'model',
+		type: 'options',
+		options: [
+			{
+				name: 'Sonnet',
+				value: 'sonnet',
+				description: 'Fast and efficient model for most tasks',
+			},
+			{
+				name: 'Opus',
+				value: 'opus',
+				description: 'Most capable model for complex tasks',
+			},
+			{
+				name: 'Haiku',
+				value: 'haiku',
+				description: 'Fastest and cheapest model, suited to classification and extraction',
+			},
+			{
+				name: 'Custom Model ID',
+				value: 'custom',
+				description: 'A full model name, such as a dated model version',
+			},
+		],
+		default: 'sonnet',
+		description: 'Claude model to use. An expression may also return any model name or alias.',
+		displayOptions: hideForManagementOperations,
+	},
+	{
+		displayName: 'Custom Model ID',
+		name: 'customModel',
+		type: 'string',
+		default: '',
+		required: true,
+		placeholder: 'e.g., claude-sonnet-4-5-20250929',
+		description: 'Model name passed to Claude Code as it is',
+		displayOptions: {
+			show: {
+				model: ['custom'],
+			},
+			...hideForManagementOperations,
+		},
+	},
+	{
+		displayName: 'Max Turns',
+		name: 'maxTurns',
+		type: 'number',
+		default: 10,
+		description: 'Maximum number of conversation turns (back-and-forth exchanges) allowed',
+		displayOptions: hideForManagementOperations,
+	},
+	{
+		displayName: 'Timeout',
+		name: 'timeout',
+		type: 'number',
+		default: 300,
+		description: 'Maximum time to wait for completion (in seconds) before aborting',
+		displayOptions: hideForManagementOperations,
+	},
+	{
+		displayName: 'Budget Limits',
+		name: 'budget',
+		type: 'collection',
+		placeholder: 'Add Limit',
+		default: {},
+		description:
+			'Stops the run as soon as streamed usage crosses a limit and returns the partial result with errorType "budget_exceeded"',
+		options: [
+			{
+				displayName: 'Daily Budget (USD)',
+				name: 'dailyBudgetUsd',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+					numberPrecision: 2,
+				},
+				default: 0,
+				description:
+					'Maximum spend of this workflow in the last 24 hours, counting every run that has a daily budget. Kept in workflow static data, which n8n only saves for production executions. 0 means unlimited.',
+			},
+			{
+				displayName: 'Max Cost per Execution (USD)',
+				name: 'maxCostUsd',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+					numberPrecision: 2,
+				},
+				default: 0,
+				description:
+					'Maximum cost of one item. Estimated from list prices while messages stream in. 0 means unlimited.',
+			},
+			{
+				displayName: 'Max Input Tokens',
+				name: 'maxInputTokens',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 0,
+				description:
+					'Maximum input tokens of one item, including cache reads and writes. 0 means unlimited.',
+			},
+			{
+				displayName: 'Max Output Tokens',
+				name: 'maxOutputTokens',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 0,
+				description: 'Maximum output tokens of one item. 0 means unlimited.',
+			},
+		],
+		displayOptions: hideForManagementOperations,
+	},
+	{
+		displayName: 'Project Path',
+		name: 'projectPath',
+		type: 'string',
+		default: '',
+		description:
+			'The directory path where Claude Code should run (e.g., /path/to/project). If empty, uses the current working directory.',
+		placeholder: 'e.g., /home/user/projects/my-app',
+		hint: 'This sets the working directory for Claude Code, allowing it to access files and run commands in the specified project location',
+		displayOptions: hideForManagementOperations,
+	},
+	{
+		...attachmentsProperty,
+		displayOptions: hideForManagementOperations,
+	},
+	{
+		displayName: 'Output Format',
+		name: 'outputFormat',
+		type: 'options',
+		noDataExpression: true,
+		options: [
+			{
+				name: 'JSON (Schema)',
+				value: 'json',
+				description:
+					'Instructs Claude to answer in the shape of a JSON Schema and returns the validated object',
+			},
+			{
+				name: 'Messages',
+				value: 'messages',
+				description: 'Returns the raw array of all messages exchanged',
+			},
+			{
+				name: 'Slack Block Kit',
+				value: 'slackBlockKit',
+				description:
+					'Returns a ready-to-post Slack message (text and blocks) with the final result and metrics',
+			},
+			{
+				name: 'Structured',
+				value: 'structured',
+				description: 'Returns a structured object with messages, summary, result, and metrics',
+			},
+			{
+				name: 'Text',
+				value: 'text',
+				description: 'Returns only the final result text',
+			},
+		],
+		default: 'structured',
+		description: 'Choose how to format the output data',
+		displayOptions: hideForManagementOperations,
+	},
+	{
+		displayName: 'Simplify',
+		name: 'simplify',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to return a simplified version of the response instead of the raw data',
+		displayOptions: {
+			show: {
+				outputFormat: ['structured'],
+			},
+			...hideForManagementOperations,
+		},
+	},
+	{
+		displayName: 'JSON Schema',
+		name: 'jsonSchema',
+		type: 'json',
+		typeOptions: {
+			rows: 8,
+		},
+		default:
+			'{\n  "type": "object",\n  "properties": {\n    "summary": { "type": "string" }\n  },\n  "required": ["summary"]\n}',
+		description: 'JSON Schema the final answer must conform to',
+		displayOptions: {
+			show: {
+				outputFormat: ['json'],
+			},
+			...hideForManagementOperations,
+		},
+	},
+	{
+		displayName: 'Max Validation Retries',
+		name: 'maxValidationRetries',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		default: 2,
+		description:
+			'How many times to ask Claude again, in the same session, when the answer does not match the schema',
+		displayOptions: {
+			show: {
+				outputFormat: ['json'],
+			},
+			...hideForManagementOperations,
+		},
+	},
+	...textFormattingProperties.map((property) => ({
+		...property,
+		displayOptions: hideForManagementOperations,
+	})),
+	{
+		displayName: 'Allowed Tools',
+		name: 'allowedTools',
+		type: 'multiOptions',
+		options: [
+			// Built-in Claude Code tools
+			{ name: 'Bash', value: 'Bash', description: 'Execute bash commands' },
+			{ name: 'Edit', value: 'Edit', description: 'Edit files' },
+			{ name: 'Exit Plan Mode', value: 'exit_plan_mode', description: 'Exit planning mode' },
+			{ name: 'Glob', value: 'Glob', description: 'Find files by pattern' },
+			{ name: 'Grep', value: 'Grep', description: 'Search file contents' },
+			{ name: 'LS', value: 'LS', description: 'List directory contents' },
+			{ name: 'MultiEdit', value: 'MultiEdit', description: 'Make multiple edits' },
+			{ name: 'Notebook Edit', value: 'NotebookEdit', description: 'Edit Jupyter notebooks' },
+			{ name: 'Notebook Read', value: 'NotebookRead', description: 'Read Jupyter notebooks' },
+			{ name: 'Read', value: 'Read', description: 'Read file contents' },
+			{ name: 'Task', value: 'Task', description: 'Launch agents for complex searches' },
+			{ name: 'Todo Write', value: 'TodoWrite', description: 'Manage todo lists' },
+			{ name: 'Web Fetch', value: 'WebFetch', description: 'Fetch web content' },
+			{ name: 'Web Search', value: 'WebSearch', description: 'Search the web' },
+			{ name: 'Write', value: 'Write', description: 'Write files' },
+		],
+		default: ['WebFetch', 'TodoWrite', 'WebSearch', 'exit_plan_mode', 'Task'],
+		description: 'Select which built-in tools Claude Code is allowed to use during execution',
+		displayOptions: hideForManagementOperations,
+	},
+	{
+		...pathPolicyProperty,
+		displayOptions: hideForManagementOperations,
+	},
+	{
+		...gitChangesProperty,
+		displayOptions: hideForManagementOperations,
+	},
+	{
+		...outputFilesProperty,
+		displayOptions: hideForManagementOperations,
+	},
+	{
+		...workspaceProperty,
+		displayOptions: hideForManagementOperations,
+	},
+	{
+		...memoryProperty,
+		displayOptions: {
+			hide: {
+				operation: CONVERSATION_MANAGEMENT_OPERATIONS,
+			},
+		},
+	},
+	itemExecutionProperty,
+	{
+		...transcriptProperty,
+		displayOptions: hideForManagementOperations,
+	},
+	{
+		displayName: 'Block Message Options',
+		name: 'streamingOptions',
+		type: 'collection',
+		placeholder: 'Add Block Message Option',
+		default: {},
+		options: [
+			{
+				displayName: 'Batch Interval',
+				name: 'batchInterval',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 500,
+				description:
+					'Maximum time (in milliseconds) a block message waits for its batch to fill before it is sent',
+				displayOptions: {
+					show: {
+						liveDelivery: ['webhook', 'file'],
+					},
+				},
+			},
+			{
+				displayName: 'Batch Size',
+				name: 'batchSize',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 1,
+				description: 'Maximum number of block messages to send in one delivery',
+				displayOptions: {
+					show: {
+						liveDelivery: ['webhook', 'file'],
+					},
+				},
+			},
+			{
+				displayName: 'Coalesce Messages',
+				name: 'coalesceMessages',
+				type: 'boolean',
+				default: true,
+				description:
+					'Whether messages that wait for the update interval are merged into one update with the latest state, listing every tool call in metadata.tools. When off, every message is sent one per interval, also after the run ends.',
+				displayOptions: {
+					hide: {
+						minUpdateInterval: [0],
+					},
+				},
+			},
+			{
+				displayName: 'Enable Block Messages',
+				name: 'enableStreaming',
+				type: 'boolean',
+				default: true,
+				description:
+					'Whether to output structured block messages through the second output (delivered after completion unless live delivery is enabled)',
+			},
+			{
+				displayName: 'File Path',
+				name: 'filePath',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g., /tmp/claude-progress.jsonl',
+				description:
+					'File or named pipe that block messages are appended to, one JSON object per line',
+				displayOptions: {
+					show: {
+						liveDelivery: ['file'],
+					},
+				},
+			},
+			{
+				displayName: 'Include Timestamps',
+				name: 'includeTimestamps',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to include timestamps in block messages',
+			},
+			{
+				displayName: 'Live Delivery',
+				name: 'liveDelivery',
+				type: 'options',
+				options: [
+					{
+						name: 'Off',
+						value: 'none',
+						description: 'Only output block messages after the run completes',
+					},
+					{
+						name: 'Webhook',
+						value: 'webhook',
+						description: 'POST batches of block messages to an HTTP endpoint as they are created',
+					},
+					{
+						name: 'File or Pipe',
+						value: 'file',
+						description: 'Append block messages as JSON lines to a local file or named pipe',
+					},
+				],
+				default: 'none',
+				description:
+					'Where to send each block message while the run is in progress. A final "completed" event is sent when the run ends.',
+			},
+			{
+				displayName: 'Max Backoff',
+				name: 'maxBackoff',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 30000,
+				description:
+					'Longest update interval (in milliseconds) reached by doubling the interval after each failed live delivery',
+				displayOptions: {
+					hide: {
+						minUpdateInterval: [0],
+					},
+				},
+			},
+			{
+				displayName: 'Message Format',
+				name: 'messageFormat',
+				type: 'options',
+				options: [
+					{
+						name: 'Standard',
+						value: 'standard',
+						description: 'Block messages with type, content, timestamp and metadata',
+					},
+					{
+						name: 'Slack Block Kit',
+						value: 'slackBlockKit',
+						description:
+							'Adds a ready-to-post Slack message to every block message: initial, progress, final or error',
+					},
+				],
+				default: 'standard',
+				description: 'Shape of the block messages sent through the second output and live delivery',
+			},
+			{
+				displayName: 'Min Update Interval',
+				name: 'minUpdateInterval',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 0,
+				description:
+					'Minimum time (in milliseconds) between two block messages of the same thread, e.g. 1000 to stay within Slack update limits. The first message and errors are never held back, and neither are final messages when Coalesce Messages is on. 0 disables throttling.',
+			},
+			{
+				displayName: 'Webhook Headers',
+				name: 'webhookHeaders',
+				type: 'json',
+				default: '{}',
+				description: 'Additional HTTP headers to send with every batch, as a JSON object',
+				displayOptions: {
+					show: {
+						liveDelivery: ['webhook'],
+					},
+				},
+			},
+			{
+				displayName: 'Webhook URL',
+				name: 'webhookUrl',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g., http://localhost:5678/webhook/claude-progress',
+				description: 'URL that receives a POST with an "events" array for every batch',
+				displayOptions: {
+					show: {
+						liveDelivery: ['webhook'],
+					},
+				},
+			},
+		],
+		displayOptions: hideForManagementOperations,
+	},
+	{
+		displayName: 'Slack Options',
+		name: 'slackOptions',
+		type: 'collection',
+		placeholder: 'Add Slack Option',
+		default: {},
+		description:
+			'Used by the Slack Block Kit output format and block message format to address the Slack message',
+		options: [
+			{
+				displayName: 'Channel',
+				name: 'channel',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g., C0123456789',
+				description: 'Channel ID added to each Slack message as "channel"',
+			},
+			{
+				displayName: 'Thread ID',
+				name: 'threadId',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g., 1712345678.123456',
+				description:
+					'Thread timestamp added to each Slack message as "thread_ts". Defaults to the conversation key.',
+				hint: 'Use expressions like {{$json.thread_ts}} to reply in the triggering Slack thread',
+			},
+		],
+		displayOptions: hideForManagementOperations,
+	},
+	{
+		displayName: 'MCP Configuration',
+		name: 'mcpConfiguration',
+		type: 'collection',
+		placeholder: 'Add MCP Option',
+		default: {},
+		options: [
+			{
+				displayName: 'Enable MCP',
+				name: 'enableMCP',
+				type: 'boolean',
+				default: true,
+				description:
+					'Whether to enable Model Context Protocol (MCP) server integration. When enabled without explicit configuration, uses system default MCP servers.',
+			},
+			{
+				displayName: 'Config File Path',
+				name: 'mcpConfigPath',
+				type: 'string',
+				default: '',
+				description:
+					'Path to an MCP configuration file (JSON or YAML) with an "mcpServers" object, like the project MCP configuration of Claude Code. ${ENV_VAR} and ${ENV_VAR:-default} references are replaced from the MCP secrets of the credential and the environment of n8n. Inline servers are added to the servers of the file and replace those with the same name.',
+				placeholder: 'e.g., /path/to/mcp-config.json',
+				displayOptions: {
+					show: {
+						enableMCP: [true],
+					},
+				},
+			},
+			{
+				displayName: 'MCP Servers',
+				name: 'mcpServers',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				default: {},
+				description: 'Individual MCP server configurations',
+				displayOptions: {
+					show: {
+						enableMCP: [true],
+					},
+				},
+				options: [
+					{
+						displayName: 'Server',
+						name: 'server',
+						values: [
+							{
+								displayName: 'Arguments',
+								name: 'args',
+								type: 'string',
+								typeOptions: {
+									rows: 2,
+								},
+								default: '',
+								description:
+									'Command line arguments (JSON array format). ${NAME} references are replaced from the MCP secrets of the credential and the environment of n8n.',
+								placeholder: 'e.g., ["--url", "https://n8n.example.com"]',
+								displayOptions: {
+									show: {
+										transport: ['stdio'],
+									},
+								},
+							},
+							{
+								displayName: 'Command',
+								name: 'command',
+								type: 'string',
+								default: '',
+								description: 'Command to start the MCP server',
+								placeholder: 'e.g., npx @n8n-mcp/server',
+								displayOptions: {
+									show: {
+										transport: ['stdio'],
+									},
+								},
+							},
+							{
+								displayName: 'Environment Variables',
+								name: 'env',
+								type: 'fixedCollection',
+								typeOptions: {
+									multipleValues: true,
+								},
+								default: {},
+								placeholder: 'Add Variable',
+								description:
+									'Environment variables of the server process. Use ${NAME} to take a value from the MCP secrets of the credential instead of entering it here.',
+								displayOptions: {
+									show: {
+										transport: ['stdio'],
+									},
+								},
+								options: [
+									{
+										displayName: 'Variable',
+										name: 'variable',
+										values: [
+											{
+												displayName: 'Name',
+												name: 'name',
+												type: 'string',
+												default: '',
+												placeholder: 'e.g., GITHUB_TOKEN',
+											},
+											{
+												displayName: 'Value',
+												name: 'value',
+												type: 'string',
+												typeOptions: { password: true },
+												default: '',
+												placeholder: 'e.g., ${GITHUB_TOKEN}',
+											},
+										],
+									},
+								],
+							},
+							{
+								displayName: 'Headers',
+								name: 'headers',
+								type: 'fixedCollection',
+								typeOptions: {
+									multipleValues: true,
+								},
+								default: {},
+								placeholder: 'Add Header',
+								description:
+									'HTTP headers sent to the server, e.g. for authorization. Use ${NAME} to take a value from the MCP secrets of the credential instead of entering it here.',
+								displayOptions: {
+									show: {
+										transport: ['sse', 'http'],
+									},
+								},
+								options: [
+									{
+										displayName: 'Header',
+										name: 'header',
+										values: [
+											{
+												displayName: 'Name',
+												name: 'name',
+												type: 'string',
+												default: '',
+												placeholder: 'e.g., Authorization',
+											},
+											{
+												displayName: 'Value',
+												name: 'value',
+												type: 'string',
+												typeOptions: { password: true },
+												default: '',
+												placeholder: 'e.g., Bearer ${MCP_TOKEN}',
+											},
+										],
+									},
+								],
+							},
+							{
+								displayName: 'Permission',
+								name: 'permission',
+								type: 'options',
+								options: [
+									{
+										name: 'Allow All',
+										value: 'whitelist',
+										description: 'Allow all tools from this server',
+									},
+									{
+										name: 'Ask Each Time',
+										value: 'ask',
+										description:
+											'Send each tool use to the approval webhook. Denied when no approval webhook is configured.',
+									},
+									{
+										name: 'Deny All',
+										value: 'blacklist',
+										description: 'Block all tools from this server',
+									},
+								],
+								default: 'ask',
+								description: 'Permission level for this MCP server',
+							},
+							{
+								displayName: 'Server Name',
+								name: 'name',
+								type: 'string',
+								default: '',
+								description: 'Name identifier for the MCP server',
+								placeholder: 'e.g., n8n-mcp',
+							},
+							{
+								displayName: 'Startup Timeout',
+								name: 'startupTimeout',
+								type: 'number',
+								typeOptions: {
+									minValue: 0,
+								},
+								default: 0,
+								description:
+									'Seconds Claude Code waits for the server to start. 0 uses the default of Claude Code.',
+							},
+							{
+								displayName: 'Transport',
+								name: 'transport',
+								type: 'options',
+								options: [
+									{
+										name: 'SSE',
+										value: 'sse',
+										description: 'Connect to a remote server over server-sent events',
+									},
+									{
+										name: 'Stdio',
+										value: 'stdio',
+										description: 'Start the server as a local process',
+									},
+									{
+										name: 'Streamable HTTP',
+										value: 'http',
+										description: 'Connect to a remote server over streamable HTTP',
+									},
+								],
+								default: 'stdio',
+								description: 'How Claude Code connects to the MCP server',
+							},
+							{
+								displayName: 'URL',
+								name: 'url',
+								type: 'string',
+								default: '',
+								description: 'URL of the MCP server endpoint',
+								placeholder: 'e.g., https://mcp.example.com/mcp',
+								displayOptions: {
+									show: {
+										transport: ['sse', 'http'],
+									},
+								},
+							},
+						],
+					},
+				],
+			},
+		],
+		displayOptions: hideForManagementOperations,
+	},
+	{
+		displayName: 'Additional Options',
+		name: 'additionalOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		options: [
+			{
+				displayName: 'Approval Timeout',
+				name: 'approvalTimeout',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 60,
+				description:
+					'Maximum time (in seconds) to wait for the approval webhook before the tool use is denied',
+			},
+			{
+				displayName: 'Approval Webhook URL',
+				name: 'approvalWebhookUrl',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g., https://n8n.example.com/webhook/claude-approval',
+				description:
+					'URL that receives a POST for each tool use needing approval and answers with {"approved": true} or {"approved": false, "reason": "..."}',
+			},
+			{
+				displayName: 'Debug Mode',
+				name: 'debug',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to enable debug logging',
+			},
+			{
+				displayName: 'Fallback Model',
+				name: 'fallbackModel',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g., sonnet',
+				description:
+					'Model Claude Code switches to when the main model is overloaded. Must differ from the main model.',
+			},
+			{
+				displayName: 'Max Thinking Tokens',
+				name: 'maxThinkingTokens',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 0,
+				description:
+					'Most tokens Claude may spend on extended thinking per turn. 0 leaves the Claude Code default.',
+			},
+			{
+				displayName: 'Require Permissions',
+				name: 'requirePermissions',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether tools that are not allowed automatically need approval from the approval webhook. Without a webhook they are denied.',
+			},
+			{
+				displayName: 'System Prompt',
+				name: 'systemPrompt',
+				type: 'string',
+				typeOptions: {
+					rows: 4,
+				},
+				default: '',
+				description: 'Additional context or instructions for Claude Code',
+				placeholder:
+					'e.g., You are helping with a Python project. Focus on clean, readable code with proper error handling.',
+			},
+		],
+		displayOptions: hideForManagementOperations,
+	},
+];
+
+// Version 2 names the session operations after what they do and starts a new conversation by default
+const OPERATION_NAMES_V2: Record<string, string> = {
+	query: 'Query',
+	continue: 'Continue',
+	resume: 'Resume',
+	fork: 'Fork',
+};
+
+const blockMessagesOutputProperty: INodeProperties = {
+	displayName: 'Block Messages Output',
+	name: 'blockMessagesOutput',
+	type: 'boolean',
+	default: false,
+	description:
+		'Whether to add a second output with the structured block messages of each run, delivered after completion',
+	displayOptions: hideForManagementOperations,
+};
+
+/**
+ * Returns the parameters of a node version. Version 2 is version 1 with the renamed session
+ * operations and a Block Messages Output switch in place of the Enable Block Messages option.
+ */
+export function getProperties(version: number): INodeProperties[] {
+	if (version < 2) return propertiesV1;
+
+	return propertiesV1.flatMap((property): INodeProperties[] => {
+		if (property.name === 'operation') {
+			const options = (property.options as INodePropertyOptions[]).map((option) =>
+				OPERATION_NAMES_V2[option.value as string]
+					? { ...option, name: OPERATION_NAMES_V2[option.value as string] }
+					: option,
+			);
+			return [
+				{
+					...property,
+					options: options.sort((a, b) => a.name.localeCompare(b.name)),
+					default: 'query',
+				},
+			];
+		}
+		if (property.name === 'streamingOptions') {
+			return [
+				blockMessagesOutputProperty,
+				{
+					...property,
+					options: (property.options as INodeProperties[]).filter(
+						(option) => option.name !== 'enableStreaming',
+					),
+				},
+			];
+		}
+		return [property];
+	});
+}
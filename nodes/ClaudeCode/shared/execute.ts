@@ -0,0 +1,1324 @@
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { query, type SDKMessage } from '@anthropic-ai/claude-code';
+import {
+	createBlockMessageSink,
+	type BlockMessageSink,
+	type DeliveryOptions,
+} from '../helpers/delivery';
+import { BlockMessageConverter } from '../helpers/blockMessages';
+import type { BlockMessage } from '../helpers/interfaces';
+import { getCredentialEnvironment, getMcpSecrets } from '../helpers/credentials';
+import {
+	buildRetryPrompt,
+	buildSchemaInstruction,
+	compileSchema,
+	parseStructuredResult,
+	type StructuredOutputResult,
+} from '../helpers/structuredOutput';
+import {
+	createPermissionHandler,
+	needsPermissionHandler,
+	type McpServerPermission,
+	type PermissionDenial,
+} from '../helpers/permissions';
+import {
+	createPathPolicy,
+	createPathPolicyHook,
+	type PathPolicyOptions,
+	type PathViolation,
+} from '../helpers/pathPolicy';
+import {
+	finishGitChanges,
+	GitSnapshot,
+	type GitChangeOptions,
+	type GitChanges,
+} from '../helpers/gitChanges';
+import { getExecutionIdSafe } from '../helpers/utils';
+import {
+	getModelEnvironment,
+	getModelQueryOptions,
+	getModelUsed,
+	resolveModel,
+	type ModelOptions,
+} from '../helpers/models';
+import { Workspace, type WorkspaceOptions } from '../helpers/workspaces';
+import { Attachments, createImagePrompt, type AttachmentOptions } from '../helpers/attachments';
+import { collectOutputFiles, hasOutputFiles, type OutputFileOptions } from '../helpers/outputFiles';
+import { hasTranscript, RunTranscript, type TranscriptOptions } from '../helpers/transcript';
+import {
+	createMemoryManager,
+	executeMemoryOperation,
+	formatMemoryContext,
+	isMemoryOperation,
+	type MemoryManager,
+	type MemoryOperation,
+	type MemoryOptions,
+	type MemorySegment,
+} from '../helpers/memory';
+import { runConcurrently, type ItemExecutionOptions } from '../helpers/concurrency';
+import { getSessionId, getSessionQueryOptions, type SessionOperation } from '../helpers/sessions';
+import {
+	createConversationManager,
+	executeConversationManagement,
+	isConversationOperation,
+	type ConversationManager,
+	type ConversationOperation,
+	type ConversationStoreOptions,
+} from '../helpers/conversations';
+import {
+	BudgetTracker,
+	DailySpendStore,
+	hasBudgetLimits,
+	type BudgetExceeded,
+	type BudgetOptions,
+} from '../helpers/budget';
+import {
+	describeMcpServer,
+	interpolateMcpServer,
+	loadMcpConfigFile,
+	validateMcpServer,
+	type McpServerDefinition,
+} from '../helpers/mcpConfig';
+import { BlockMessageThrottle, type ThrottleOptions } from '../helpers/throttle';
+import {
+	createN8nToolServer,
+	getConnectedTools,
+	N8N_TOOLS_SERVER,
+	type ConnectedTool,
+} from '../helpers/n8nTools';
+import { buildToolResult, getTouchedFiles, isToolMode } from '../helpers/toolMode';
+import {
+	SlackMessageBuilder,
+	type SlackMessage,
+	type SlackOptions,
+} from '../helpers/slackBlockKit';
+import {
+	formatBlockMessage,
+	formatText,
+	formatTextChunks,
+	type TextFormat,
+} from '../helpers/textFormatting';
+
+/**
+ * Runs the node for all input items and returns its outputs. Version 1 always has the Block
+ * Messages output; from version 2 on it is only added when enabled.
+ */
+export async function executeClaudeCode(
+	this: IExecuteFunctions,
+	version: number,
+): Promise<INodeExecutionData[][]> {
+	const items = this.getInputData();
+	const itemExecution = this.getNodeParameter('itemExecution', 0, {}) as ItemExecutionOptions;
+	// As a tool of an AI Agent, runs return a compact result instead of the selected output format
+	const toolMode = isToolMode(this);
+	const blockMessagesOutput =
+		version < 2 || (this.getNodeParameter('blockMessagesOutput', 0, false) as boolean);
+
+	// Runs one item and returns its main and block message output items. The cancel signal
+	// aborts the run when another item fails and the node fails fast.
+	const executeItem = async (
+		itemIndex: number,
+		cancelSignal: AbortSignal,
+	): Promise<INodeExecutionData[][]> => {
+		const returnData: INodeExecutionData[] = [];
+		const streamingData: INodeExecutionData[] = [];
+		let slackBuilder: SlackMessageBuilder | undefined;
+		let workspace: Workspace | undefined;
+		try {
+			const operation = this.getNodeParameter('operation', itemIndex, 'continue') as
+				| SessionOperation
+				| ConversationOperation
+				| MemoryOperation;
+
+			// Conversation key operations need the store; list, get, delete and expire never run a query
+			const conversationKey = (
+				this.getNodeParameter('conversationKey', itemIndex, '') as string
+			).trim();
+			let conversationManager: ConversationManager | undefined;
+			if (isConversationOperation(operation)) {
+				const conversationStore = this.getNodeParameter(
+					'conversationStore',
+					itemIndex,
+					{},
+				) as ConversationStoreOptions;
+				try {
+					conversationManager = createConversationManager(this, conversationStore);
+				} catch (error) {
+					throw new NodeOperationError(this.getNode(), (error as Error).message, { itemIndex });
+				}
+
+				if (
+					!conversationKey &&
+					operation !== 'listConversations' &&
+					operation !== 'expireConversations'
+				) {
+					throw new NodeOperationError(
+						this.getNode(),
+						'Conversation key is required and cannot be empty',
+						{ itemIndex },
+					);
+				}
+
+				if (operation !== 'conversation') {
+					const results = await executeConversationManagement(
+						conversationManager,
+						operation,
+						conversationKey,
+					);
+					returnData.push(...results.map((json) => ({ json, pairedItem: itemIndex })));
+					return [returnData, streamingData];
+				}
+			}
+
+			// Long-term memory of the namespace; the statistics and consolidation operations never run a query
+			const memoryOptions = this.getNodeParameter('memory', itemIndex, {}) as MemoryOptions;
+			let memoryManager: MemoryManager | undefined;
+			if (memoryOptions.namespace?.trim() || isMemoryOperation(operation)) {
+				try {
+					memoryManager = createMemoryManager(this, memoryOptions);
+				} catch (error) {
+					throw new NodeOperationError(this.getNode(), (error as Error).message, { itemIndex });
+				}
+			}
+			if (memoryManager && isMemoryOperation(operation)) {
+				returnData.push({
+					json: await executeMemoryOperation(memoryManager, operation),
+					pairedItem: itemIndex,
+				});
+				return [returnData, streamingData];
+			}
+
+			const sessionId = this.getNodeParameter('sessionId', itemIndex, '') as string;
+			const prompt = this.getNodeParameter('prompt', itemIndex) as string;
+			const modelParameter = this.getNodeParameter('model', itemIndex) as string;
+			const maxTurns = this.getNodeParameter('maxTurns', itemIndex) as number;
+			const timeout = this.getNodeParameter('timeout', itemIndex) as number;
+			const budgetOptions = this.getNodeParameter('budget', itemIndex, {}) as BudgetOptions;
+			const projectPath = this.getNodeParameter('projectPath', itemIndex) as string;
+			const outputFormat = this.getNodeParameter('outputFormat', itemIndex) as string;
+			const simplify = this.getNodeParameter('simplify', itemIndex, false) as boolean;
+			const jsonSchema = this.getNodeParameter('jsonSchema', itemIndex, '') as unknown;
+			const maxValidationRetries = this.getNodeParameter(
+				'maxValidationRetries',
+				itemIndex,
+				2,
+			) as number;
+			const textFormatting = this.getNodeParameter(
+				'textFormatting',
+				itemIndex,
+				'markdown',
+			) as TextFormat;
+			const maxChunkLength = this.getNodeParameter('maxChunkLength', itemIndex, 0) as number;
+			const allowedTools = this.getNodeParameter('allowedTools', itemIndex, []) as string[];
+			const pathPolicyOptions = this.getNodeParameter(
+				'pathPolicy',
+				itemIndex,
+				{},
+			) as PathPolicyOptions;
+			const gitOptions = this.getNodeParameter('gitChanges', itemIndex, {}) as GitChangeOptions;
+			const workspaceOptions = this.getNodeParameter(
+				'workspace',
+				itemIndex,
+				{},
+			) as WorkspaceOptions;
+			const attachmentOptions = this.getNodeParameter(
+				'attachments',
+				itemIndex,
+				{},
+			) as AttachmentOptions;
+			const outputFileOptions = this.getNodeParameter(
+				'outputFiles',
+				itemIndex,
+				{},
+			) as OutputFileOptions;
+			const transcriptOptions = this.getNodeParameter(
+				'transcript',
+				itemIndex,
+				{},
+			) as TranscriptOptions;
+			const streamingOptions = {
+				...(this.getNodeParameter('streamingOptions', itemIndex) as {
+					enableStreaming?: boolean;
+					includeTimestamps?: boolean;
+					messageFormat?: 'standard' | 'slackBlockKit';
+				} & DeliveryOptions &
+					ThrottleOptions),
+			};
+			// From version 2 on, block messages are made for the Block Messages output or live delivery
+			if (version >= 2) {
+				streamingOptions.enableStreaming =
+					blockMessagesOutput ||
+					(!!streamingOptions.liveDelivery && streamingOptions.liveDelivery !== 'none');
+			}
+			const slackOptions = this.getNodeParameter('slackOptions', itemIndex, {}) as SlackOptions;
+			const additionalOptions = this.getNodeParameter('additionalOptions', itemIndex) as {
+				systemPrompt?: string;
+				requirePermissions?: boolean;
+				approvalWebhookUrl?: string;
+				approvalTimeout?: number;
+				debug?: boolean;
+			} & ModelOptions;
+			const mcpConfiguration = this.getNodeParameter('mcpConfiguration', itemIndex) as {
+				enableMCP?: boolean;
+				mcpConfigPath?: string;
+				mcpServers?: {
+					server: Array<{
+						name: string;
+						transport?: 'stdio' | 'sse' | 'http';
+						command?: string;
+						args?: string;
+						url?: string;
+						env?: { variable?: Array<{ name: string; value: string }> };
+						headers?: { header?: Array<{ name: string; value: string }> };
+						startupTimeout?: number;
+						permission: 'whitelist' | 'ask' | 'blacklist';
+					}>;
+				};
+			};
+
+			// Aborted by the timeout and by cancellation from a failed item, both armed right before
+			// the query runs so validation errors leave no timer or listener behind
+			const abortController = new AbortController();
+
+			// Validate required parameters
+			if (!prompt || prompt.trim() === '') {
+				throw new NodeOperationError(this.getNode(), 'Prompt is required and cannot be empty', {
+					itemIndex,
+				});
+			}
+			let model: string;
+			let modelQueryOptions: ReturnType<typeof getModelQueryOptions>;
+			let modelEnv: Record<string, string>;
+			try {
+				model = resolveModel(
+					modelParameter,
+					this.getNodeParameter('customModel', itemIndex, '') as string,
+				);
+				modelQueryOptions = getModelQueryOptions(model, additionalOptions);
+				modelEnv = getModelEnvironment(additionalOptions);
+			} catch (error) {
+				throw new NodeOperationError(this.getNode(), (error as Error).message, { itemIndex });
+			}
+
+			// Resolve MCP servers: servers from the config file first, then inline servers, which
+			// replace file servers of the same name. Without either, the SDK uses the system defaults.
+			// ${NAME} references are resolved from the MCP secrets of the credential and the environment.
+			const mcpServers: Record<string, McpServerDefinition> = {};
+			const mcpServerPermissions: Record<string, McpServerPermission> = {};
+			const mcpStartupTimeouts: number[] = [];
+			let mcpSecrets: Record<string, string> = {};
+			if (mcpConfiguration.enableMCP) {
+				try {
+					mcpSecrets = await getMcpSecrets(this, itemIndex);
+				} catch (error) {
+					throw new NodeOperationError(this.getNode(), (error as Error).message, { itemIndex });
+				}
+				const mcpEnv = { ...process.env, ...mcpSecrets };
+
+				const mcpConfigPath = mcpConfiguration.mcpConfigPath?.trim();
+				if (mcpConfigPath) {
+					try {
+						for (const [name, entry] of Object.entries(
+							await loadMcpConfigFile(mcpConfigPath, mcpEnv),
+						)) {
+							mcpServers[name] = entry.config;
+							if (entry.permission) mcpServerPermissions[name] = entry.permission;
+							if (entry.startupTimeout) mcpStartupTimeouts.push(entry.startupTimeout);
+						}
+					} catch (error) {
+						throw new NodeOperationError(
+							this.getNode(),
+							`Invalid MCP config file ${mcpConfigPath}: ${(error as Error).message}`,
+							{ itemIndex },
+						);
+					}
+				}
+
+				for (const server of mcpConfiguration.mcpServers?.server ?? []) {
+					let args: unknown;
+					if (server.args && server.args.trim()) {
+						try {
+							args = JSON.parse(server.args);
+						} catch (error) {
+							throw new NodeOperationError(
+								this.getNode(),
+								`Invalid JSON format in MCP server "${server.name}" arguments: ${server.args}`,
+								{
+									itemIndex,
+								},
+							);
+						}
+					}
+					const toMap = (pairs: Array<{ name: string; value: string }> = []) =>
+						Object.fromEntries(
+							pairs
+								.filter((pair) => pair.name?.trim())
+								.map((pair) => [pair.name.trim(), pair.value ?? '']),
+						);
+					const transport = server.transport ?? 'stdio';
+					try {
+						const entry = validateMcpServer(
+							server.name ?? '',
+							interpolateMcpServer(
+								server.name ?? '',
+								transport === 'stdio'
+									? {
+											type: transport,
+											command: server.command,
+											args,
+											env: toMap(server.env?.variable),
+										}
+									: { type: transport, url: server.url, headers: toMap(server.headers?.header) },
+								mcpEnv,
+							),
+						);
+						mcpServers[server.name] = entry.config;
+						if (server.startupTimeout) mcpStartupTimeouts.push(server.startupTimeout);
+					} catch (error) {
+						throw new NodeOperationError(
+							this.getNode(),
+							`Invalid MCP server configuration: ${(error as Error).message}`,
+							{ itemIndex },
+						);
+					}
+					mcpServerPermissions[server.name] = server.permission;
+				}
+			}
+
+			// n8n tools connected to the Tools input are offered to Claude through an in-process MCP server.
+			// Version 1 and the tool variant of the node have no Tools input.
+			let connectedTools: ConnectedTool[] = [];
+			if (version >= 2 && !toolMode) {
+				try {
+					connectedTools = await getConnectedTools(this, itemIndex);
+				} catch (error) {
+					throw new NodeOperationError(this.getNode(), (error as Error).message, { itemIndex });
+				}
+			}
+			if (connectedTools.length > 0 && mcpServers[N8N_TOOLS_SERVER]) {
+				throw new NodeOperationError(
+					this.getNode(),
+					`MCP server name "${N8N_TOOLS_SERVER}" is reserved for the connected n8n tools`,
+					{ itemIndex },
+				);
+			}
+
+			// Debug logging
+			if (additionalOptions.debug) {
+				console.log(`[ClaudeCodeStreaming] Starting execution for item ${itemIndex}`);
+				console.log(`[ClaudeCodeStreaming] Prompt: ${prompt.substring(0, 100)}...`);
+				console.log(
+					`[ClaudeCodeStreaming] Model: ${model}${modelQueryOptions.fallbackModel ? ` (fallback ${modelQueryOptions.fallbackModel})` : ''}`,
+				);
+				console.log(
+					`[ClaudeCodeStreaming] Operation: ${operation}${sessionId ? ` (session ${sessionId})` : ''}`,
+				);
+				console.log(`[ClaudeCodeStreaming] Streaming enabled: ${streamingOptions.enableStreaming}`);
+				console.log(`[ClaudeCodeStreaming] MCP enabled: ${mcpConfiguration.enableMCP}`);
+				if (mcpConfiguration.enableMCP) {
+					if (mcpConfiguration.mcpConfigPath?.trim()) {
+						console.log(
+							`[ClaudeCodeStreaming] MCP config file: ${mcpConfiguration.mcpConfigPath.trim()}`,
+						);
+					}
+					const serverNames = Object.keys(mcpServers);
+					if (serverNames.length > 0) {
+						console.log(`[ClaudeCodeStreaming] MCP servers configured: ${serverNames.length}`);
+						serverNames.forEach((name, index) => {
+							const description = describeMcpServer(mcpServers[name], Object.values(mcpSecrets));
+							console.log(
+								`[ClaudeCodeStreaming] MCP Server ${index + 1}: ${name} (${description}) - Permission: ${mcpServerPermissions[name] ?? 'whitelist'}`,
+							);
+						});
+					} else {
+						console.log(`[ClaudeCodeStreaming] MCP using system default configuration`);
+					}
+				}
+				if (connectedTools.length > 0) {
+					console.log(
+						`[ClaudeCodeStreaming] Connected n8n tools: ${connectedTools.map((connectedTool) => connectedTool.name).join(', ')}`,
+					);
+				}
+			}
+
+			// Get original message context for real-time streaming (reserved for future use)
+			// const originalContext = items[itemIndex].json || {};
+
+			// Helper function to convert SDK messages to block messages
+			const createBlockMessage = (
+				type: BlockMessage['type'],
+				content: string,
+				metadata?: Record<string, any>,
+			): BlockMessage => {
+				return {
+					type,
+					content,
+					timestamp: streamingOptions.includeTimestamps !== false ? new Date().toISOString() : '',
+					metadata: metadata || {},
+				};
+			};
+
+			// Explicit MCP servers; without them the SDK loads the system default configuration
+			// (e.g., ~/.claude/mcp_servers.json)
+			let mcpOptions = {};
+			try {
+				mcpOptions =
+					Object.keys(mcpServers).length > 0 || connectedTools.length > 0
+						? {
+								mcpServers: {
+									...mcpServers,
+									...(connectedTools.length > 0 && {
+										[N8N_TOOLS_SERVER]: createN8nToolServer(connectedTools),
+									}),
+								},
+							}
+						: {};
+			} catch (error) {
+				throw new NodeOperationError(this.getNode(), (error as Error).message, { itemIndex });
+			}
+			// Claude Code has a single MCP startup timeout, so the longest configured one applies
+			const mcpStartupTimeout = mcpStartupTimeouts.length > 0 ? Math.max(...mcpStartupTimeouts) : 0;
+
+			// Select the conversation to run in (continue, resume or fork a session). A conversation
+			// key resumes its stored session, or starts a new one on the first message.
+			let sessionOptions;
+			const storedConversation = await conversationManager?.get(conversationKey);
+			try {
+				sessionOptions = conversationManager
+					? getSessionQueryOptions(
+							storedConversation ? 'resume' : 'query',
+							storedConversation?.sessionId,
+						)
+					: getSessionQueryOptions(operation as SessionOperation, sessionId);
+			} catch (error) {
+				throw new NodeOperationError(this.getNode(), (error as Error).message, { itemIndex });
+			}
+
+			// Compile the JSON Schema up front so an invalid schema fails before any tokens are spent
+			let compiledSchema: ReturnType<typeof compileSchema> | undefined;
+			if (outputFormat === 'json') {
+				try {
+					compiledSchema = compileSchema(jsonSchema);
+				} catch (error) {
+					throw new NodeOperationError(this.getNode(), (error as Error).message, { itemIndex });
+				}
+			}
+
+			// Credential environment for the SDK subprocess (undefined falls back to the host login)
+			let credentialEnv: Record<string, string> | undefined;
+			try {
+				credentialEnv = await getCredentialEnvironment(this, itemIndex);
+			} catch (error) {
+				throw new NodeOperationError(this.getNode(), (error as Error).message, { itemIndex });
+			}
+			// Settings Claude Code only reads from its environment, added to the credential or host one
+			const settingsEnv: Record<string, string> = {
+				...modelEnv,
+				...(mcpStartupTimeout && { MCP_TIMEOUT: String(Math.round(mcpStartupTimeout * 1000)) }),
+			};
+			const env =
+				Object.keys(settingsEnv).length > 0
+					? { ...(credentialEnv ?? process.env), ...settingsEnv }
+					: credentialEnv;
+
+			// Cost and token limits, checked as usage streams in. A spent daily budget stops the run
+			// before it starts.
+			const dailySpend = budgetOptions.dailyBudgetUsd
+				? new DailySpendStore(this.getWorkflowStaticData('global'))
+				: undefined;
+			const budgetTracker = hasBudgetLimits(budgetOptions)
+				? new BudgetTracker(budgetOptions, dailySpend?.getSpentUsd())
+				: undefined;
+			let budgetExceeded: BudgetExceeded | undefined = budgetTracker?.check();
+
+			// Slack messages for the output and/or block messages, threaded by the conversation key by default
+			const slackBlockMessages = streamingOptions.messageFormat === 'slackBlockKit';
+			if (outputFormat === 'slackBlockKit' || slackBlockMessages) {
+				slackBuilder = new SlackMessageBuilder(
+					prompt,
+					{
+						channel: slackOptions.channel?.trim() || undefined,
+						threadId: slackOptions.threadId?.trim() || conversationKey || undefined,
+					},
+					textFormatting,
+				);
+			}
+
+			// Live delivery sink for block messages (undefined when delivery is off), created after the
+			// throttle that feeds it. Failed deliveries make the throttle back off.
+			let blockSink: BlockMessageSink | undefined;
+
+			// Rate limit block messages per thread: the Slack thread, else the conversation or the item
+			const throttle = new BlockMessageThrottle(
+				slackOptions.threadId?.trim() ||
+					conversationKey ||
+					`${getExecutionIdSafe(this)}-${itemIndex}`,
+				streamingOptions,
+				(outputMessage) => {
+					streamingData.push({
+						json: outputMessage,
+						pairedItem: itemIndex,
+					});
+					blockSink?.push(outputMessage);
+				},
+				maxChunkLength,
+			);
+			if (streamingOptions.enableStreaming) {
+				blockSink = createBlockMessageSink(this, streamingOptions, itemIndex, (delivered) =>
+					throttle.recordDelivery(delivered),
+				);
+			}
+
+			// Add block message to output array and hand it to the live sink. In Slack mode each one
+			// carries a Slack message; progress messages summarize all block messages so far.
+			const blockHistory: BlockMessage[] = [];
+			const emitBlockMessage = (blockMessage: BlockMessage, slackMessage?: SlackMessage) => {
+				if (!streamingOptions.enableStreaming) return;
+				blockHistory.push(blockMessage);
+				const outputMessage =
+					slackBlockMessages && slackBuilder
+						? { ...blockMessage, slack: slackMessage ?? slackBuilder.progress(blockHistory) }
+						: blockMessage;
+				throttle.push(outputMessage);
+			};
+
+			const blockConverter = new BlockMessageConverter(createBlockMessage);
+
+			// Enforce MCP server permissions and approvals through the SDK tool-permission callback
+			const permissionOptions = {
+				mcpServerPermissions,
+				requirePermissions: additionalOptions.requirePermissions,
+				approvalWebhookUrl: additionalOptions.approvalWebhookUrl,
+				approvalTimeout: additionalOptions.approvalTimeout,
+			};
+			const permissionDenials: PermissionDenial[] = [];
+			const canUseTool = needsPermissionHandler(permissionOptions)
+				? createPermissionHandler(
+						this,
+						permissionOptions,
+						{ executionId: getExecutionIdSafe(this), itemIndex },
+						(denial) => {
+							permissionDenials.push(denial);
+							emitBlockMessage(
+								createBlockMessage('status', `Denied tool: ${denial.tool_name}`, {
+									permission: 'denied',
+									...denial,
+								}),
+							);
+						},
+					)
+				: undefined;
+
+			// Memories relevant to the prompt go in front of the system prompt. Read before the
+			// workspace and attachments are created, so a failed read leaves nothing behind.
+			const retrievedMemories: MemorySegment[] =
+				memoryManager && memoryOptions.injectMemories !== false
+					? await memoryManager.retrieve(prompt)
+					: [];
+			const appendSystemPrompt = [
+				memoryManager &&
+					retrievedMemories.length > 0 &&
+					formatMemoryContext(memoryManager.namespace, retrievedMemories),
+				additionalOptions.systemPrompt,
+			]
+				.filter(Boolean)
+				.join('\n\n');
+
+			// Give the item its own workspace when isolation is on; the run uses workingDirectory
+			try {
+				workspace = await Workspace.create(
+					projectPath?.trim(),
+					workspaceOptions,
+					`${getExecutionIdSafe(this)}-${itemIndex}`,
+				);
+			} catch (error) {
+				throw new NodeOperationError(
+					this.getNode(),
+					`Could not create the workspace: ${(error as Error).message}`,
+					{ itemIndex },
+				);
+			}
+			const workingDirectory = workspace?.path ?? projectPath?.trim();
+
+			// Write the binary attachments of the item where Claude can read them
+			let attachments: Attachments | undefined;
+			try {
+				attachments = await Attachments.prepare(
+					this,
+					itemIndex,
+					attachmentOptions,
+					workingDirectory,
+				);
+			} catch (error) {
+				await workspace?.finish(false);
+				throw new NodeOperationError(
+					this.getNode(),
+					`Could not attach binary data: ${(error as Error).message}`,
+					{ itemIndex },
+				);
+			}
+
+			// Check file tool paths and Bash working directories against the path policy, which
+			// always lets Claude read the attachments
+			const pathPolicy = createPathPolicy(
+				attachments?.directory
+					? {
+							...pathPolicyOptions,
+							allowedPaths: [pathPolicyOptions.allowedPaths, attachments.directory]
+								.filter(Boolean)
+								.join('\n'),
+						}
+					: pathPolicyOptions,
+				workingDirectory,
+			);
+			const pathViolations: PathViolation[] = [];
+			const hooks = pathPolicy
+				? {
+						PreToolUse: [
+							createPathPolicyHook(pathPolicy, (violation) => {
+								pathViolations.push(violation);
+								emitBlockMessage(
+									createBlockMessage(
+										'error',
+										`Blocked ${violation.tool_name}: ${violation.reason}`,
+										violation,
+									),
+								);
+							}),
+						],
+					}
+				: undefined;
+
+			// Images go to Claude as content blocks, which needs a streaming-input prompt
+			const promptText = attachments ? attachments.describe(prompt) : prompt;
+			const queryPrompt = compiledSchema
+				? buildSchemaInstruction(promptText, compiledSchema.schema)
+				: promptText;
+			const imagePrompt = attachments?.images.length
+				? createImagePrompt(queryPrompt, attachments.images)
+				: undefined;
+
+			// Build query options - using SDK's built-in conversation persistence
+			const queryOptions = {
+				prompt: imagePrompt?.prompt ?? queryPrompt,
+				options: {
+					abortController,
+					maxTurns,
+					permissionMode: (canUseTool ? 'default' : 'bypassPermissions') as
+						| 'default'
+						| 'bypassPermissions',
+					...(canUseTool && { canUseTool }),
+					...(hooks && { hooks }),
+					model,
+					...modelQueryOptions,
+					...sessionOptions,
+					outputFormat: 'stream-json', // Enable real-time streaming JSON output
+					verbose: true, // Required when using stream-json output format
+					...(appendSystemPrompt && { appendSystemPrompt }),
+					...(workingDirectory && { cwd: workingDirectory }),
+					...(attachments?.directory &&
+						attachmentOptions.location !== 'project' && {
+							additionalDirectories: [attachments.directory],
+						}),
+					...(allowedTools.length > 0 && { allowedTools }),
+					...mcpOptions, // Include MCP configuration
+					...(env && { env }),
+				},
+			};
+
+			// Snapshot the repository so the changes made by this run can be reported (or reset)
+			let gitSnapshot: GitSnapshot | undefined;
+			if (gitOptions.captureChanges) {
+				const gitPath = workingDirectory || process.cwd();
+				try {
+					gitSnapshot = await GitSnapshot.take(gitPath);
+				} catch (error) {
+					await attachments?.cleanup();
+					await workspace?.finish(false);
+					throw new NodeOperationError(
+						this.getNode(),
+						`Could not snapshot the git repository: ${(error as Error).message}`,
+						{ itemIndex },
+					);
+				}
+				if (!gitSnapshot) {
+					await attachments?.cleanup();
+					await workspace?.finish(false);
+					throw new NodeOperationError(
+						this.getNode(),
+						`Git change capture needs a git repository, but ${gitPath} is not inside one`,
+						{ itemIndex },
+					);
+				}
+			}
+			const gitTemplateValues = { executionId: getExecutionIdSafe(this), itemIndex, prompt };
+
+			// Execute query
+			const messages: SDKMessage[] = [];
+			const transcript = hasTranscript(transcriptOptions)
+				? new RunTranscript(this, transcriptOptions, {
+						executionId: getExecutionIdSafe(this),
+						itemIndex,
+					})
+				: undefined;
+			let runSucceeded = false;
+			const startTime = Date.now();
+
+			const timeoutId = setTimeout(() => abortController.abort(), timeout * 1000);
+			const cancel = () => abortController.abort();
+			if (cancelSignal.aborted) abortController.abort();
+			cancelSignal.addEventListener('abort', cancel, { once: true });
+			try {
+				if (slackBlockMessages && slackBuilder) {
+					emitBlockMessage(
+						createBlockMessage('status', 'Execution started'),
+						slackBuilder.initial(),
+					);
+				}
+				if (attachments) {
+					emitBlockMessage(
+						createBlockMessage(
+							'status',
+							`Attached ${attachments.images.length} images and ${attachments.files.length} files`,
+							{ images: attachments.imageNames, files: attachments.files },
+						),
+					);
+				}
+				if (memoryManager && retrievedMemories.length > 0) {
+					emitBlockMessage(
+						createBlockMessage('status', `Loaded ${retrievedMemories.length} memories`, {
+							namespace: memoryManager.namespace,
+							segmentIds: retrievedMemories.map((segment) => segment.id),
+						}),
+					);
+				}
+
+				// Runs one query in the item's conversation, collecting messages and block messages
+				const runQuery = async (options: typeof queryOptions) => {
+					// Process each message as it arrives
+					for await (const message of query(options)) {
+						messages.push(message);
+						transcript?.record(message);
+						// The run is done, so the image prompt can end its input
+						if (message.type === 'result') imagePrompt?.finish();
+						const exceeded = budgetTracker?.track(message);
+
+						// Create block messages for every content block and tool result if enabled
+						if (streamingOptions.enableStreaming) {
+							for (const blockMessage of blockConverter.convert(message)) {
+								for (const formatted of formatBlockMessage(
+									blockMessage,
+									textFormatting,
+									maxChunkLength,
+								)) {
+									emitBlockMessage(formatted);
+								}
+							}
+						}
+
+						// Debug logging
+						if (additionalOptions.debug) {
+							console.log(`[ClaudeCodeStreaming] Received message type: ${message.type}`);
+						}
+
+						// Stop the run as soon as a budget limit is crossed, keeping what was produced so far
+						if (exceeded) {
+							budgetExceeded = exceeded;
+							emitBlockMessage(
+								createBlockMessage('error', `Budget exceeded: ${exceeded.reason}`, {
+									...exceeded,
+									usage: budgetTracker?.getUsage(),
+								}),
+							);
+							abortController.abort();
+							break;
+						}
+					}
+				};
+
+				if (!budgetExceeded) {
+					await runQuery(queryOptions);
+				}
+
+				// Validate structured output, asking again in the same session while retries remain
+				let structuredResult: StructuredOutputResult | undefined;
+				let validationAttempts = 0;
+				if (compiledSchema) {
+					const getLastResult = () =>
+						[...messages].reverse().find((m) => m.type === 'result') as any;
+					structuredResult = parseStructuredResult(
+						getLastResult()?.result,
+						compiledSchema.validate,
+					);
+					while (
+						structuredResult.errors.length > 0 &&
+						validationAttempts < maxValidationRetries &&
+						!budgetExceeded
+					) {
+						const lastSessionId = getSessionId(messages);
+						if (!lastSessionId) break;
+						validationAttempts++;
+						emitBlockMessage(
+							createBlockMessage('status', 'Answer does not match the JSON Schema, retrying', {
+								attempt: validationAttempts,
+								validationErrors: structuredResult.errors,
+							}),
+						);
+						if (additionalOptions.debug) {
+							console.log(
+								`[ClaudeCodeStreaming] Structured output invalid, retry ${validationAttempts}: ${structuredResult.errors.join('; ')}`,
+							);
+						}
+						await runQuery({
+							prompt: buildRetryPrompt(structuredResult.errors),
+							options: {
+								...queryOptions.options,
+								continue: false,
+								forkSession: false,
+								resume: lastSessionId,
+							},
+						});
+						structuredResult = parseStructuredResult(
+							getLastResult()?.result,
+							compiledSchema.validate,
+						);
+					}
+				}
+
+				clearTimeout(timeoutId);
+
+				const duration = Date.now() - startTime;
+				if (additionalOptions.debug) {
+					console.log(
+						`[ClaudeCodeStreaming] Execution completed in ${duration}ms with ${messages.length} messages`,
+					);
+				}
+
+				// Format output based on selected format (the last result wins after validation retries)
+				const resultMessage = [...messages].reverse().find((m) => m.type === 'result') as any;
+				const runSessionId = getSessionId(messages);
+				// The model that answered, which is the fallback model once Claude Code switched to it
+				const modelUsed = getModelUsed(messages) ?? model;
+				runSucceeded = !budgetExceeded && resultMessage?.subtype === 'success';
+
+				// Remember the session for the conversation key so the next message resumes it
+				const conversation =
+					conversationManager && runSessionId
+						? {
+								...(await conversationManager.recordRun(conversationKey, runSessionId, {
+									totalCostUsd: resultMessage?.total_cost_usd,
+									projectPath: projectPath?.trim() || undefined,
+								})),
+								isNew: !storedConversation,
+							}
+						: undefined;
+
+				// Report the files changed during the run, then branch and commit, or reset on failure
+				let changes: GitChanges | undefined;
+				if (gitSnapshot) {
+					changes = await finishGitChanges(gitSnapshot, gitOptions, runSucceeded, {
+						...gitTemplateValues,
+						sessionId: runSessionId,
+					});
+					emitBlockMessage(
+						createBlockMessage('status', `Changed ${changes.stats.filesChanged} files`, {
+							stats: changes.stats,
+							...(changes.branch && { branch: changes.branch }),
+							...(changes.commit && { commit: changes.commit }),
+							...(changes.reset && { reset: true }),
+						}),
+					);
+				}
+
+				// Save the transcript and export the spans of the run
+				const transcriptInfo = await transcript?.close(runSessionId);
+				if (additionalOptions.debug && transcriptInfo?.errors.length) {
+					console.log(
+						`[ClaudeCodeStreaming] Transcript errors: ${transcriptInfo.errors.join('; ')}`,
+					);
+				}
+
+				// Return the files Claude created or changed as binary data, while the workspace still exists
+				const outputFiles = hasOutputFiles(outputFileOptions)
+					? await collectOutputFiles(
+							this,
+							outputFileOptions,
+							workingDirectory,
+							getTouchedFiles(messages),
+						)
+					: undefined;
+
+				const resultText: string = resultMessage?.result || resultMessage?.error || '';
+
+				// Remember a summary of the successful run for later runs in the namespace
+				const storedMemory =
+					memoryManager && runSucceeded && memoryOptions.storeRuns !== false
+						? await memoryManager.storeRun({
+								prompt,
+								result: resultText,
+								sessionId: runSessionId ?? undefined,
+								projectPath: projectPath?.trim() || undefined,
+								files: changes?.files.map((file) => file.path),
+								costUsd: resultMessage?.total_cost_usd,
+							})
+						: undefined;
+				const memory = memoryManager && {
+					namespace: memoryManager.namespace,
+					retrievedSegmentIds: retrievedMemories.map((segment) => segment.id),
+					...(storedMemory && { storedSegmentId: storedMemory.id }),
+				};
+				const formattedResult = {
+					result: formatText(resultText, textFormatting),
+					...(maxChunkLength > 0 && {
+						resultChunks: formatTextChunks(resultText, textFormatting, maxChunkLength),
+					}),
+				};
+				const resultMetrics = {
+					duration_ms: resultMessage?.duration_ms,
+					total_cost_usd: resultMessage?.total_cost_usd,
+					num_turns: resultMessage?.num_turns,
+				};
+				if (slackBlockMessages && slackBuilder) {
+					emitBlockMessage(
+						createBlockMessage('status', 'Execution finished', {
+							success: !budgetExceeded && resultMessage?.subtype === 'success',
+							model: modelUsed,
+						}),
+						budgetExceeded
+							? slackBuilder.error(`Budget exceeded: ${budgetExceeded.reason}`)
+							: slackBuilder.final(resultText, resultMessage?.subtype === 'success', resultMetrics),
+					);
+				}
+
+				// Flush remaining block messages and send the final "completed" event
+				await throttle.close();
+				const deliveryStats = await blockSink?.close({
+					success: !budgetExceeded && resultMessage?.subtype === 'success',
+					...(budgetExceeded && {
+						errorType: 'budget_exceeded',
+						error: budgetExceeded.reason,
+					}),
+					session_id: runSessionId,
+					model: modelUsed,
+					result: formattedResult.result || null,
+					duration_ms: resultMessage?.duration_ms,
+					total_cost_usd: resultMessage?.total_cost_usd,
+					messageCount: messages.length,
+				});
+				if (additionalOptions.debug && deliveryStats?.errors.length) {
+					console.log(
+						`[ClaudeCodeStreaming] Live delivery errors: ${deliveryStats.errors.join('; ')}`,
+					);
+				}
+
+				if (toolMode) {
+					const structuredValue =
+						structuredResult && structuredResult.errors.length === 0
+							? structuredResult.value
+							: undefined;
+					returnData.push({
+						json: buildToolResult({
+							result: structuredValue ?? (formattedResult.result || null),
+							success: !budgetExceeded && resultMessage?.subtype === 'success',
+							changedFiles: changes?.files.map((file) => file.path) ?? getTouchedFiles(messages),
+							totalCostUsd: resultMessage?.total_cost_usd ?? budgetTracker?.getUsage().cost_usd,
+							sessionId: runSessionId,
+							error: budgetExceeded
+								? `Budget exceeded: ${budgetExceeded.reason}`
+								: structuredResult?.errors.length
+									? 'Final answer does not match the JSON Schema'
+									: undefined,
+						}),
+						pairedItem: itemIndex,
+					});
+				} else if (budgetExceeded && budgetTracker) {
+					// Partial result: everything Claude wrote before the run was stopped
+					const partialResult = messages
+						.filter((m) => m.type === 'assistant')
+						.flatMap((m) => ((m as any).message?.content ?? []) as any[])
+						.filter((content) => content.type === 'text')
+						.map((content) => content.text as string)
+						.join('\n\n');
+					returnData.push({
+						json: {
+							...(outputFormat === 'slackBlockKit' &&
+								slackBuilder?.error(`Budget exceeded: ${budgetExceeded.reason}`)),
+							success: false,
+							error: `Budget exceeded: ${budgetExceeded.reason}`,
+							errorType: 'budget_exceeded',
+							budget: budgetExceeded,
+							usage: budgetTracker.getUsage(),
+							partialResult: formatText(partialResult, textFormatting),
+							...(outputFormat === 'messages' || (outputFormat === 'structured' && !simplify)
+								? { messages }
+								: {}),
+							messageCount: messages.length,
+							session_id: runSessionId,
+							...(conversation && { conversation_key: conversation.key }),
+							...(pathPolicy && { pathViolations }),
+							...(changes && { changes }),
+							...(outputFiles && { outputFiles: outputFiles.files }),
+							...(transcriptInfo && { transcript: transcriptInfo }),
+							...(workspace && { workspace: workspace.getInfo(runSucceeded) }),
+							...(memory && { memory }),
+						},
+						pairedItem: itemIndex,
+					});
+				} else if (outputFormat === 'json' && structuredResult) {
+					const { value, errors } = structuredResult;
+					if (errors.length === 0) {
+						// Emit the validated object itself; other JSON values are wrapped
+						returnData.push({
+							json:
+								typeof value === 'object' && value !== null && !Array.isArray(value)
+									? (value as IDataObject)
+									: { value: value as IDataObject },
+							pairedItem: itemIndex,
+						});
+					} else {
+						returnData.push({
+							json: {
+								success: false,
+								error: 'Final answer does not match the JSON Schema',
+								errorType: 'validation_error',
+								validationErrors: errors,
+								validationAttempts: validationAttempts + 1,
+								rawResult: resultMessage?.result ?? null,
+								session_id: runSessionId,
+								...(conversation && { conversation_key: conversation.key }),
+								...(changes && { changes }),
+								...(outputFiles && { outputFiles: outputFiles.files }),
+								...(transcriptInfo && { transcript: transcriptInfo }),
+								...(workspace && { workspace: workspace.getInfo(runSucceeded) }),
+								...(memory && { memory }),
+							},
+							pairedItem: itemIndex,
+						});
+					}
+				} else if (outputFormat === 'slackBlockKit' && slackBuilder) {
+					returnData.push({
+						json: {
+							...slackBuilder.final(
+								resultText,
+								resultMessage?.subtype === 'success',
+								resultMetrics,
+							),
+							success: resultMessage?.subtype === 'success',
+							session_id: runSessionId,
+							...(conversation && { conversation_key: conversation.key }),
+							...(pathPolicy && { pathViolations }),
+							...(changes && { changes }),
+							...(outputFiles && { outputFiles: outputFiles.files }),
+							...(transcriptInfo && { transcript: transcriptInfo }),
+							...(workspace && { workspace: workspace.getInfo(runSucceeded) }),
+							...(memory && { memory }),
+							...resultMetrics,
+						},
+						pairedItem: itemIndex,
+					});
+				} else if (outputFormat === 'text') {
+					returnData.push({
+						json: {
+							...formattedResult,
+							success: resultMessage?.subtype === 'success',
+							session_id: runSessionId,
+							...(conversation && { conversation_key: conversation.key }),
+							...(pathPolicy && { pathViolations }),
+							...(changes && { changes }),
+							...(outputFiles && { outputFiles: outputFiles.files }),
+							...(transcriptInfo && { transcript: transcriptInfo }),
+							...(workspace && { workspace: workspace.getInfo(runSucceeded) }),
+							...(memory && { memory }),
+							duration_ms: resultMessage?.duration_ms,
+							total_cost_usd: resultMessage?.total_cost_usd,
+						},
+						pairedItem: itemIndex,
+					});
+				} else if (outputFormat === 'messages') {
+					returnData.push({
+						json: {
+							messages,
+							messageCount: messages.length,
+							session_id: runSessionId,
+							...(conversation && { conversation_key: conversation.key }),
+							...(pathPolicy && { pathViolations }),
+							...(changes && { changes }),
+							...(outputFiles && { outputFiles: outputFiles.files }),
+							...(transcriptInfo && { transcript: transcriptInfo }),
+							...(workspace && { workspace: workspace.getInfo(runSucceeded) }),
+							...(memory && { memory }),
+						},
+						pairedItem: itemIndex,
+					});
+				} else if (outputFormat === 'structured') {
+					// Parse into structured format
+					const userMessages = messages.filter((m) => m.type === 'user');
+					const assistantMessages = messages.filter((m) => m.type === 'assistant');
+					const toolUses = assistantMessages.flatMap((m) =>
+						((m as any).message?.content ?? []).filter((c: any) => c.type === 'tool_use'),
+					);
+
+					if (simplify) {
+						// Simplified output with key fields
+						returnData.push({
+							json: {
+								...formattedResult,
+								result: formattedResult.result || null,
+								success: resultMessage?.subtype === 'success',
+								session_id: runSessionId,
+								model: modelUsed,
+								...(conversation && { conversation_key: conversation.key }),
+								userMessageCount: userMessages.length,
+								assistantMessageCount: assistantMessages.length,
+								toolUseCount: toolUses.length,
+								permissionDenialCount: permissionDenials.length,
+								...(pathPolicy && { pathViolations }),
+								...(changes && { changes }),
+								...(outputFiles && { outputFiles: outputFiles.files }),
+								...(transcriptInfo && { transcript: transcriptInfo }),
+								...(workspace && { workspace: workspace.getInfo(runSucceeded) }),
+								...(memory && { memory }),
+								duration_ms: resultMessage?.duration_ms || null,
+								total_cost_usd: resultMessage?.total_cost_usd || null,
+							},
+							pairedItem: itemIndex,
+						});
+					} else {
+						// Full structured output
+						returnData.push({
+							json: {
+								messages,
+								summary: {
+									userMessageCount: userMessages.length,
+									assistantMessageCount: assistantMessages.length,
+									toolUseCount: toolUses.length,
+									hasResult: !!resultMessage,
+									permissionDenials,
+								},
+								...formattedResult,
+								result: formattedResult.result || null,
+								metrics: resultMessage
+									? {
+											duration_ms: resultMessage.duration_ms,
+											num_turns: resultMessage.num_turns,
+											total_cost_usd: resultMessage.total_cost_usd,
+											usage: resultMessage.usage,
+										}
+									: null,
+								success: resultMessage?.subtype === 'success',
+								session_id: runSessionId,
+								model: modelUsed,
+								...(conversation && { conversation }),
+								...(pathPolicy && { pathViolations }),
+								...(changes && { changes }),
+								...(outputFiles && { outputFiles: outputFiles.files }),
+								...(transcriptInfo && { transcript: transcriptInfo }),
+								...(workspace && { workspace: workspace.getInfo(runSucceeded) }),
+								...(memory && { memory }),
+								...(deliveryStats && { delivery: deliveryStats }),
+							},
+							pairedItem: itemIndex,
+						});
+					}
+				}
+
+				// The run adds one item to the main output, which carries the files
+				if (outputFiles && returnData.length > 0) {
+					returnData[returnData.length - 1].binary = outputFiles.binary;
+				}
+			} catch (queryError) {
+				clearTimeout(timeoutId);
+
+				// A run that failed with an error can still have changed files
+				if (gitSnapshot && gitOptions.resetOnFailure) {
+					await finishGitChanges(gitSnapshot, gitOptions, false, {
+						...gitTemplateValues,
+						sessionId: getSessionId(messages),
+					}).catch(() => undefined);
+				}
+
+				// Send error block message if streaming enabled
+				if (streamingOptions.enableStreaming) {
+					const errorMessage = queryError instanceof Error ? queryError.message : 'Unknown error';
+					emitBlockMessage(
+						createBlockMessage('error', `Execution failed: ${errorMessage}`),
+						slackBuilder?.error(errorMessage),
+					);
+					await throttle.close();
+					await blockSink?.close({
+						success: false,
+						session_id: getSessionId(messages),
+						error: errorMessage,
+						messageCount: messages.length,
+					});
+				}
+
+				throw queryError;
+			} finally {
+				clearTimeout(timeoutId);
+				cancelSignal.removeEventListener('abort', cancel);
+				await throttle.close();
+				imagePrompt?.finish();
+				await transcript?.close(getSessionId(messages));
+				await attachments?.cleanup();
+				// Count this run toward the workflow's rolling daily spend, whether it succeeded or not
+				dailySpend?.record(budgetTracker?.getUsage().cost_usd ?? 0);
+				await workspace?.finish(runSucceeded);
+			}
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+			const isTimeout = error instanceof Error && error.name === 'AbortError';
+
+			if (this.continueOnFail()) {
+				// Slack output stays ready to post, reporting the failure instead of the result
+				const slackError =
+					slackBuilder && this.getNodeParameter('outputFormat', itemIndex, '') === 'slackBlockKit'
+						? slackBuilder.error(errorMessage)
+						: undefined;
+				returnData.push({
+					json: {
+						...slackError,
+						error: errorMessage,
+						errorType: isTimeout ? 'timeout' : 'execution_error',
+						...(workspace && { workspace: workspace.getInfo(false) }),
+						success: false,
+						timestamp: new Date().toISOString(),
+					},
+					pairedItem: itemIndex,
+				});
+				return [returnData, streamingData];
+			}
+
+			// Provide clear, user-friendly error messages
+			const userFriendlyMessage = isTimeout
+				? `Operation timed out. Consider increasing the timeout parameter.`
+				: `Claude Code execution failed: ${errorMessage}`;
+
+			throw new NodeOperationError(this.getNode(), userFriendlyMessage, {
+				itemIndex,
+				description: errorMessage,
+			});
+		}
+		return [returnData, streamingData];
+	};
+
+	// Items run up to the concurrency limit at once; outputs are put back in input order
+	const { results, failures } = await runConcurrently(items.length, itemExecution, executeItem);
+	if (failures.length === 1) throw failures[0].error;
+	if (failures.length > 1) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`${failures.length} of ${items.length} items failed`,
+			{
+				description: failures
+					.map(({ index, error }) => `Item ${index}: ${(error as Error).message}`)
+					.join('\n'),
+			},
+		);
+	}
+
+	const mainOutput = results.flatMap((output) => output?.[0] ?? []);
+	if (!blockMessagesOutput) return [mainOutput];
+	return [mainOutput, results.flatMap((output) => output?.[1] ?? [])];
+}
@@ -0,0 +1,52 @@
+import type {
+	IExecuteFunctions,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeBaseDescription,
+	INodeTypeDescription,
+} from 'n8n-workflow';
+import { NodeConnectionType } from 'n8n-workflow';
+import { claudeCodeApiCredentialTest } from '../helpers/credentials';
+import { getProperties } from '../shared/description';
+import { executeClaudeCode } from '../shared/execute';
+
+export class ClaudeCodeStreamingV1 implements INodeType {
+	description: INodeTypeDescription;
+
+	constructor(baseDescription: INodeTypeBaseDescription) {
+		this.description = {
+			...baseDescription,
+			version: 1,
+			subtitle: '={{$parameter["prompt"]}}',
+			description:
+				'AI coding assistant with block message output. Features single conversation thread with structured message output delivered after completion.',
+			defaults: {
+				name: 'Claude Code Streaming',
+			},
+			// Same shape as before versioning: no Tools input and not usable as an AI Agent tool
+			inputs: [{ type: NodeConnectionType.Main }],
+			outputs: [
+				{ type: NodeConnectionType.Main, displayName: 'Main' },
+				{ type: NodeConnectionType.Main, displayName: 'Block Messages' },
+			],
+			credentials: [
+				{
+					name: 'claudeCodeApi',
+					required: false,
+					testedBy: 'claudeCodeApiCredentialTest',
+				},
+			],
+			properties: getProperties(1),
+		};
+	}
+
+	methods = {
+		credentialTest: {
+			claudeCodeApiCredentialTest,
+		},
+	};
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		return await executeClaudeCode.call(this, 1);
+	}
+}
@@ -0,0 +1,60 @@
+import type {
+	IExecuteFunctions,
+	INodeExecutionData,
+	INodeParameters,
+	INodeType,
+	INodeTypeBaseDescription,
+	INodeTypeDescription,
+} from 'n8n-workflow';
+import { NodeConnectionType } from 'n8n-workflow';
+import { claudeCodeApiCredentialTest } from '../helpers/credentials';
+import { getProperties } from '../shared/description';
+import { executeClaudeCode } from '../shared/execute';
+
+// Evaluated by the editor as an expression, so it cannot use anything from outside its own body
+const configuredOutputs = (parameters: INodeParameters) => {
+	const outputs = [{ type: 'main', displayName: 'Main' }];
+	if (parameters.blockMessagesOutput === true) {
+		outputs.push({ type: 'main', displayName: 'Block Messages' });
+	}
+	return outputs;
+};
+
+export class ClaudeCodeStreamingV2 implements INodeType {
+	description: INodeTypeDescription;
+
+	constructor(baseDescription: INodeTypeBaseDescription) {
+		this.description = {
+			...baseDescription,
+			version: 2,
+			subtitle: '={{$parameter["operation"] + ": " + $parameter["prompt"]}}',
+			defaults: {
+				name: 'Claude Code',
+			},
+			usableAsTool: true,
+			inputs: [
+				{ type: NodeConnectionType.Main },
+				{ type: NodeConnectionType.AiTool, displayName: 'Tools', required: false },
+			],
+			outputs: `={{(${configuredOutputs})($parameter)}}`,
+			credentials: [
+				{
+					name: 'claudeCodeApi',
+					required: false,
+					testedBy: 'claudeCodeApiCredentialTest',
+				},
+			],
+			properties: getProperties(2),
+		};
+	}
+
+	methods = {
+		credentialTest: {
+			claudeCodeApiCredentialTest,
+		},
+	};
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		return await executeClaudeCode.call(this, 2);
+	}
+}